@@ -354,8 +354,8 @@ export async function analyzeProjectDependencies(
       changeType: "modified" as const,
       isUIRelevant: isUIRelevant(f),
     }));
-  } else if (isGitRepo(projectRoot)) {
-    const diffResult = getGitDiff(projectRoot, 500000, baseBranch);
+  } else if (await isGitRepo(projectRoot)) {
+    const diffResult = await getGitDiff(projectRoot, 500000, baseBranch);
     if (diffResult) {
       files = parseChangedFilesFromDiff(diffResult.diff);
     } else {
@@ -2,7 +2,9 @@
  * Inflight Authentication Utilities
  *
  * Handles authentication flow for MCP Inflight.
- * Uses a localhost HTTP server callback pattern for browser-based auth.
+ * Uses a localhost HTTP server callback pattern for browser-based auth,
+ * or a device authorization flow (short code + polling) when no local
+ * browser is available (SSH sessions, dev containers).
  *
  * Ported from inflight/packages/mcp-inflight/src/utils/auth.ts
  */
@@ -10,6 +12,7 @@
 import * as http from "http";
 import * as fs from "fs";
 import * as path from "path";
+import * as crypto from "crypto";
 import { exec } from "child_process";
 import { promisify } from "util";
 
@@ -54,35 +57,253 @@ export interface AuthData {
 }
 
 /**
- * Read stored authentication data from disk
+ * Where the active credentials come from:
+ * - "env": INFLIGHT_API_KEY (CI and scripted use, never written to disk)
+ * - "file": a named profile in the auth file written by inflight_login
  */
-export function getAuthData(): AuthData | null {
+export type CredentialSource = "env" | "file";
+
+export const DEFAULT_PROFILE = "default";
+
+/**
+ * On-disk auth file: profiles keyed by environment, so a production key is
+ * never reused against staging or local.
+ */
+interface AuthStore {
+  version: 2;
+  environments: {
+    [environment: string]: {
+      activeProfile: string;
+      profiles: { [profile: string]: AuthData };
+    };
+  };
+}
+
+/**
+ * Summary of a stored profile (never includes the API key)
+ */
+export interface ProfileInfo {
+  name: string;
+  environment: string;
+  active: boolean;
+  userId: string;
+  email?: string;
+  displayName?: string;
+  defaultWorkspaceId?: string;
+  createdAt: string;
+}
+
+// In-memory credentials built from INFLIGHT_API_KEY (filled in once validated)
+let envAuthData: AuthData | null = null;
+
+/**
+ * Read the auth store, migrating the legacy single-credential file.
+ * Legacy credentials predate per-environment storage; they were almost always
+ * production logins, so they become the production "default" profile.
+ */
+function readAuthStore(): AuthStore {
+  let raw: any;
   try {
-    const content = fs.readFileSync(AUTH_FILE, "utf-8");
-    return JSON.parse(content);
+    raw = JSON.parse(fs.readFileSync(AUTH_FILE, "utf-8"));
   } catch {
-    return null;
+    return { version: 2, environments: {} };
+  }
+
+  if (raw && raw.version === 2 && raw.environments) {
+    return raw as AuthStore;
+  }
+
+  if (raw && typeof raw.apiKey === "string") {
+    return {
+      version: 2,
+      environments: {
+        production: {
+          activeProfile: DEFAULT_PROFILE,
+          profiles: { [DEFAULT_PROFILE]: raw as AuthData },
+        },
+      },
+    };
   }
+
+  return { version: 2, environments: {} };
 }
 
-/**
- * Save authentication data to disk
- */
-export function saveAuthData(data: AuthData): void {
+function writeAuthStore(store: AuthStore): void {
   const dir = path.dirname(AUTH_FILE);
   fs.mkdirSync(dir, { recursive: true });
-  fs.writeFileSync(AUTH_FILE, JSON.stringify(data, null, 2), { mode: 0o600 });
+  fs.writeFileSync(AUTH_FILE, JSON.stringify(store, null, 2), { mode: 0o600 });
 }
 
 /**
- * Clear stored authentication data
+ * Get the environment credentials are stored under (INFLIGHT_ENV)
  */
-export function clearAuthData(): void {
-  try {
-    fs.unlinkSync(AUTH_FILE);
-  } catch {
-    // Ignore if file doesn't exist
+export function getAuthEnvironment(): string {
+  return AUTH_ENV;
+}
+
+/**
+ * Get the active profile name for the current environment.
+ * INFLIGHT_PROFILE overrides the profile selected with switchProfile.
+ */
+export function getActiveProfileName(): string {
+  if (process.env.INFLIGHT_PROFILE) {
+    return process.env.INFLIGHT_PROFILE;
   }
+  return readAuthStore().environments[AUTH_ENV]?.activeProfile || DEFAULT_PROFILE;
+}
+
+/**
+ * Get the active credential source, or null if not authenticated
+ */
+export function getCredentialSource(): CredentialSource | null {
+  if (process.env.INFLIGHT_API_KEY) {
+    return "env";
+  }
+  const profiles = readAuthStore().environments[AUTH_ENV]?.profiles || {};
+  return profiles[getActiveProfileName()] ? "file" : null;
+}
+
+/**
+ * Describe which profile and environment a tool call used
+ */
+export function getProfileContext(): { profile: string; environment: string } {
+  return {
+    profile: process.env.INFLIGHT_API_KEY ? "INFLIGHT_API_KEY" : getActiveProfileName(),
+    environment: AUTH_ENV,
+  };
+}
+
+/**
+ * Build credentials from INFLIGHT_API_KEY / INFLIGHT_WORKSPACE_ID.
+ * userId, email and name are unknown until the key is validated.
+ */
+function getEnvAuthData(): AuthData {
+  const apiKey = process.env.INFLIGHT_API_KEY!;
+  if (!envAuthData || envAuthData.apiKey !== apiKey) {
+    envAuthData = {
+      apiKey,
+      userId: "",
+      defaultWorkspaceId: process.env.INFLIGHT_WORKSPACE_ID || undefined,
+      createdAt: new Date().toISOString(),
+    };
+  }
+  return envAuthData;
+}
+
+/**
+ * Read authentication data: INFLIGHT_API_KEY if set, otherwise the active
+ * profile for the current environment
+ */
+export function getAuthData(): AuthData | null {
+  if (process.env.INFLIGHT_API_KEY) {
+    return getEnvAuthData();
+  }
+
+  const profiles = readAuthStore().environments[AUTH_ENV]?.profiles || {};
+  return profiles[getActiveProfileName()] || null;
+}
+
+/**
+ * Save authentication data to a profile in the current environment
+ * (the active profile by default).
+ * With INFLIGHT_API_KEY set, updates are kept in memory so the key never
+ * lands in the auth file.
+ */
+export function saveAuthData(data: AuthData, profile?: string): void {
+  if (!profile && process.env.INFLIGHT_API_KEY && data.apiKey === process.env.INFLIGHT_API_KEY) {
+    envAuthData = { ...getEnvAuthData(), ...data };
+    return;
+  }
+
+  const store = readAuthStore();
+  const profileName = profile || getActiveProfileName();
+  const env = store.environments[AUTH_ENV] || { activeProfile: profileName, profiles: {} };
+  env.profiles[profileName] = data;
+  store.environments[AUTH_ENV] = env;
+  writeAuthStore(store);
+}
+
+/**
+ * Clear stored authentication data for a profile in the current environment
+ * (the active profile by default). Returns false if there was nothing saved.
+ * Credentials from INFLIGHT_API_KEY can only be removed by unsetting the variable.
+ */
+export function clearAuthData(profile?: string): boolean {
+  return removeProfile(profile || getActiveProfileName());
+}
+
+/**
+ * List stored profiles across all environments
+ */
+export function listProfiles(): ProfileInfo[] {
+  const store = readAuthStore();
+  const activeName = getActiveProfileName();
+  const result: ProfileInfo[] = [];
+
+  for (const [environment, env] of Object.entries(store.environments)) {
+    const active = environment === AUTH_ENV ? activeName : env.activeProfile;
+    for (const [name, data] of Object.entries(env.profiles)) {
+      result.push({
+        name,
+        environment,
+        active: name === active,
+        userId: data.userId,
+        email: data.email,
+        displayName: data.name,
+        defaultWorkspaceId: data.defaultWorkspaceId,
+        createdAt: data.createdAt,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Make a stored profile the active one for the current environment.
+ * Returns false if the profile doesn't exist in this environment.
+ */
+export function switchProfile(profile: string): boolean {
+  const store = readAuthStore();
+  const env = store.environments[AUTH_ENV];
+  if (!env?.profiles[profile]) {
+    return false;
+  }
+  env.activeProfile = profile;
+  writeAuthStore(store);
+  return true;
+}
+
+/**
+ * Remove a stored profile (current environment by default).
+ * Returns false if there was nothing to remove.
+ */
+export function removeProfile(profile: string, environment: string = AUTH_ENV): boolean {
+  const store = readAuthStore();
+  const env = store.environments[environment];
+  if (!env?.profiles[profile]) {
+    return false;
+  }
+
+  delete env.profiles[profile];
+  if (Object.keys(env.profiles).length === 0) {
+    delete store.environments[environment];
+  } else if (env.activeProfile === profile) {
+    env.activeProfile = Object.keys(env.profiles).includes(DEFAULT_PROFILE)
+      ? DEFAULT_PROFILE
+      : Object.keys(env.profiles)[0];
+  }
+
+  if (Object.keys(store.environments).length === 0) {
+    try {
+      fs.unlinkSync(AUTH_FILE);
+    } catch {
+      // Ignore if file doesn't exist
+    }
+  } else {
+    writeAuthStore(store);
+  }
+  return true;
 }
 
 /**
@@ -118,153 +339,409 @@ async function openBrowser(url: string): Promise<void> {
 export type LogFn = (message: string) => void;
 
 /**
- * Authenticate with Inflight using browser-based OAuth flow
+ * How to sign in: open a local browser, use a device code, or pick automatically
+ */
+export type AuthMode = "browser" | "device" | "auto";
+
+/**
+ * Detect sessions where a browser on this machine can't reach the localhost
+ * callback server: SSH sessions, dev containers, and Linux without a display.
+ */
+export function isHeadlessEnvironment(): boolean {
+  const env = process.env;
+
+  if (env.SSH_CONNECTION || env.SSH_CLIENT || env.SSH_TTY) {
+    return true;
+  }
+
+  if (env.REMOTE_CONTAINERS || env.CODESPACES || env.DEVCONTAINER || fs.existsSync("/.dockerenv")) {
+    return true;
+  }
+
+  if (process.platform === "linux" && !env.DISPLAY && !env.WAYLAND_DISPLAY) {
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Resolve "auto" to a concrete auth mode.
+ * INFLIGHT_AUTH_MODE=browser|device overrides detection.
+ */
+export function resolveAuthMode(mode: AuthMode = "auto"): Exclude<AuthMode, "auto"> {
+  if (mode !== "auto") {
+    return mode;
+  }
+
+  const override = process.env.INFLIGHT_AUTH_MODE;
+  if (override === "browser" || override === "device") {
+    return override;
+  }
+
+  return isHeadlessEnvironment() ? "device" : "browser";
+}
+
+/**
+ * Authenticate with Inflight
+ *
+ * Uses the browser callback flow when a local browser is available and the
+ * device code flow otherwise (or when explicitly requested).
+ */
+export async function authenticate(
+  log: LogFn,
+  options: { mode?: AuthMode; profile?: string } = {}
+): Promise<AuthData> {
+  const mode = resolveAuthMode(options.mode);
+  const profile = options.profile || getActiveProfileName();
+  if (mode === "device") {
+    return authenticateWithDeviceCode(log, profile);
+  }
+  return authenticateWithBrowser(log, profile);
+}
+
+/**
+ * Store a fresh login in a profile and make it the active one
+ */
+function storeLogin(authData: AuthData, profile: string): void {
+  saveAuthData(authData, profile);
+  switchProfile(profile);
+}
+
+/**
+ * Device authorization response (RFC 8628)
+ */
+interface DeviceCodeResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  expires_in: number;
+  interval?: number;
+}
+
+/**
+ * Authenticate with Inflight using the device authorization flow
+ *
+ * 1. Requests a device code and short user code
+ * 2. Shows the code and verification URL (approve from any browser)
+ * 3. Polls until the code is approved, denied or expires
+ * 4. Stores credentials in the given profile
+ */
+async function authenticateWithDeviceCode(log: LogFn, profile: string): Promise<AuthData> {
+  const codeResponse = await fetch(`${INFLIGHT_BASE}/api/mcp/device/code`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ client: "inflight-mcp" }),
+  });
+
+  if (!codeResponse.ok) {
+    const text = await codeResponse.text();
+    throw new Error(`Failed to start device login (${codeResponse.status}): ${text || "Empty response"}`);
+  }
+
+  const device = await codeResponse.json() as DeviceCodeResponse;
+  const verifyUrl = device.verification_uri_complete || device.verification_uri;
+
+  log(`To sign in, open ${verifyUrl} in any browser and enter the code: ${device.user_code}`);
+
+  const expiresAt = Date.now() + (device.expires_in || 600) * 1000;
+  let intervalMs = (device.interval || 5) * 1000;
+
+  while (Date.now() < expiresAt) {
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+
+    let tokenResponse: Response;
+    try {
+      tokenResponse = await fetch(`${INFLIGHT_BASE}/api/mcp/device/token`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ device_code: device.device_code }),
+      });
+    } catch {
+      // Transient network error - keep polling until the code expires
+      continue;
+    }
+
+    const data = await tokenResponse.json().catch(() => ({})) as {
+      error?: string;
+      api_key?: string;
+      user_id?: string;
+      email?: string;
+      name?: string;
+    };
+
+    if (tokenResponse.ok && data.api_key && data.user_id) {
+      const authData: AuthData = {
+        apiKey: data.api_key,
+        userId: data.user_id,
+        email: data.email || undefined,
+        name: data.name || undefined,
+        createdAt: new Date().toISOString(),
+      };
+      storeLogin(authData, profile);
+      log(`Signed in as ${authData.email || authData.name || authData.userId}`);
+      return authData;
+    }
+
+    switch (data.error) {
+      case "authorization_pending":
+        continue;
+      case "slow_down":
+        intervalMs += 5000;
+        continue;
+      case "access_denied":
+        throw new Error("Sign-in was denied in the browser");
+      case "expired_token":
+        throw new Error("The sign-in code expired. Please try again.");
+      default:
+        throw new Error(`Device login failed (${tokenResponse.status}): ${data.error || "Unexpected response"}`);
+    }
+  }
+
+  throw new Error("The sign-in code expired. Please try again.");
+}
+
+/**
+ * Page shown in the browser after a successful sign-in
+ */
+function renderSuccessPage(displayName: string): string {
+  const safeDisplayName = escapeHtml(displayName);
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <title>Authenticated - Inflight</title>
+        <style>
+          * { margin: 0; padding: 0; box-sizing: border-box; }
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            background-color: #15161C;
+            color: #F9FAFB;
+            min-height: 100vh;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+          }
+          .container {
+            background-color: #0F1012;
+            border: 1px solid #1F2025;
+            border-radius: 16px;
+            padding: 48px;
+            text-align: center;
+            max-width: 400px;
+            width: 90%;
+            box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.3), 0 2px 4px -1px rgba(0, 0, 0, 0.2);
+          }
+          .logo {
+            margin-bottom: 32px;
+          }
+          .success-icon {
+            width: 64px;
+            height: 64px;
+            background: linear-gradient(135deg, #1C8AF8 0%, #60ADFA 100%);
+            border-radius: 50%;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            margin: 0 auto 24px;
+          }
+          .success-icon svg {
+            width: 32px;
+            height: 32px;
+          }
+          h1 {
+            font-size: 24px;
+            font-weight: 600;
+            margin-bottom: 8px;
+            color: #F9FAFB;
+          }
+          .greeting {
+            font-size: 16px;
+            color: #98A1AE;
+            margin-bottom: 24px;
+          }
+          .message {
+            font-size: 14px;
+            color: #697282;
+            line-height: 1.5;
+          }
+          .close-hint {
+            margin-top: 24px;
+            padding-top: 24px;
+            border-top: 1px solid #1F2025;
+            font-size: 13px;
+            color: #697282;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="logo">
+            <svg xmlns="http://www.w3.org/2000/svg" width="41" height="25" viewBox="0 0 41 25" fill="none">
+              <path d="M23.1244 23.6849C22.6097 24.7058 21.0702 24.3421 21.0668 23.1988L21.0015 1.1163C20.9987 0.188062 22.0857 -0.316302 22.7927 0.285127L39.6536 14.6273C40.526 15.3694 39.8055 16.782 38.6925 16.5114L28.8843 14.127C28.3931 14.0076 27.8845 14.2426 27.6569 14.6939L23.1244 23.6849Z" fill="white"/>
+              <path d="M16.9597 23.6651C17.4771 24.6846 19.0157 24.3168 19.016 23.1735L19.0223 1.09085C19.0225 0.162606 17.9342 -0.338848 17.2288 0.26447L0.406372 14.6517C-0.464095 15.3961 0.260202 16.8068 1.37245 16.5333L11.1743 14.1226C11.6651 14.0019 12.1744 14.2355 12.4032 14.6862L16.9597 23.6651Z" fill="white"/>
+            </svg>
+          </div>
+          <div class="success-icon">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="white" stroke-width="3">
+              <path stroke-linecap="round" stroke-linejoin="round" d="M5 13l4 4L19 7"/>
+            </svg>
+          </div>
+          <h1>You're connected!</h1>
+          <p class="greeting">Welcome, ${safeDisplayName}</p>
+          <p class="message">You can close this tab and head back to your terminal.</p>
+          <p class="close-hint">Closing automatically...</p>
+        </div>
+        <script>setTimeout(() => window.close(), 3000);</script>
+      </body>
+    </html>
+  `;
+}
+
+/**
+ * Page shown in the browser when the callback is rejected
+ */
+function renderFailurePage(message: string): string {
+  return `
+    <html>
+      <body style="font-family: system-ui; padding: 2rem; text-align: center;">
+        <h1 style="color: #e53e3e;">Authentication Failed</h1>
+        <p>${escapeHtml(message)}</p>
+      </body>
+    </html>
+  `;
+}
+
+/**
+ * Generate a URL-safe random string (state nonce / PKCE verifier)
+ */
+function randomUrlSafe(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString("base64url");
+}
+
+/**
+ * Compare two secrets without leaking timing information
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Exchange a one-time authorization code for credentials (PKCE).
+ * The API key travels in this server-to-server response, never in a URL.
+ */
+async function exchangeAuthCode(code: string, codeVerifier: string, redirectUri: string): Promise<{
+  apiKey: string;
+  userId: string;
+  email?: string;
+  name?: string;
+}> {
+  const response = await fetch(`${INFLIGHT_BASE}/api/mcp/auth/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      grant_type: "authorization_code",
+      code,
+      code_verifier: codeVerifier,
+      redirect_uri: redirectUri,
+    }),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Failed to complete sign-in (${response.status}): ${text || "Empty response"}`);
+  }
+
+  const data = await response.json() as { api_key?: string; user_id?: string; email?: string; name?: string };
+  if (!data.api_key || !data.user_id) {
+    throw new Error("Sign-in response was missing the API key or user ID");
+  }
+
+  return { apiKey: data.api_key, userId: data.user_id, email: data.email, name: data.name };
+}
+
+/**
+ * Authenticate with Inflight using browser-based OAuth flow (state + PKCE)
  *
  * 1. Starts a temporary HTTP server on localhost
- * 2. Opens Inflight auth URL in browser
- * 3. Waits for callback with API key
- * 4. Stores credentials locally
+ * 2. Opens Inflight auth URL in browser with a state nonce and PKCE challenge
+ * 3. Waits for callback with a one-time code, rejecting mismatched state
+ * 4. Exchanges the code (plus PKCE verifier) for an API key
+ * 5. Stores credentials in the given profile
  */
-export async function authenticate(log: LogFn): Promise<AuthData> {
+function authenticateWithBrowser(log: LogFn, profile: string): Promise<AuthData> {
+  // Per-login secrets: state binds the callback to this login attempt,
+  // the PKCE verifier proves the code exchange comes from this process
+  const state = randomUrlSafe();
+  const codeVerifier = randomUrlSafe();
+  const codeChallenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+  let redirectUri = "";
+  let completed = false;
+
   return new Promise((resolve, reject) => {
     // Start temporary HTTP server on random port
-    const server = http.createServer((req, res) => {
+    const server = http.createServer(async (req, res) => {
       const url = new URL(req.url || "", `http://localhost`);
 
-      if (url.pathname === "/callback") {
-        const apiKey = url.searchParams.get("api_key");
-        const userId = url.searchParams.get("user_id");
-        const email = url.searchParams.get("email");
-        const name = url.searchParams.get("name");
-
-        if (!apiKey || !userId) {
-          res.writeHead(400, { "Content-Type": "text/html" });
-          res.end(`
-            <html>
-              <body style="font-family: system-ui; padding: 2rem; text-align: center;">
-                <h1 style="color: #e53e3e;">Authentication Failed</h1>
-                <p>Missing API key or user ID. Please try again.</p>
-              </body>
-            </html>
-          `);
-          server.close();
-          reject(new Error("Missing API key or user ID in callback"));
-          return;
-        }
+      if (url.pathname !== "/callback") {
+        // Unknown path
+        res.writeHead(404);
+        res.end("Not found");
+        return;
+      }
+
+      // Reject anything that didn't come from this login attempt, but keep
+      // waiting so a stray or malicious request can't abort the real sign-in
+      const returnedState = url.searchParams.get("state");
+      if (completed || !returnedState || !safeEqual(returnedState, state)) {
+        res.writeHead(400, { "Content-Type": "text/html" });
+        res.end(renderFailurePage("This sign-in link is invalid or has expired. Please start again from your terminal."));
+        log("Ignored a sign-in callback with an invalid state");
+        return;
+      }
+
+      const error = url.searchParams.get("error");
+      const code = url.searchParams.get("code");
+
+      if (error || !code) {
+        completed = true;
+        res.writeHead(400, { "Content-Type": "text/html" });
+        res.end(renderFailurePage(error ? "Sign-in was cancelled. Please try again." : "Missing authorization code. Please try again."));
+        server.close();
+        reject(new Error(error ? `Sign-in failed: ${error}` : "Missing authorization code in callback"));
+        return;
+      }
+
+      completed = true;
+      try {
+        const credentials = await exchangeAuthCode(code, codeVerifier, redirectUri);
 
-        // Success response with Inflight branding
-        const displayName = name || email || "there";
-        const safeDisplayName = escapeHtml(displayName);
-        res.writeHead(200, { "Content-Type": "text/html" });
-        res.end(`
-          <!DOCTYPE html>
-          <html>
-            <head>
-              <meta charset="utf-8">
-              <meta name="viewport" content="width=device-width, initial-scale=1">
-              <title>Authenticated - Inflight</title>
-              <style>
-                * { margin: 0; padding: 0; box-sizing: border-box; }
-                body {
-                  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-                  background-color: #15161C;
-                  color: #F9FAFB;
-                  min-height: 100vh;
-                  display: flex;
-                  align-items: center;
-                  justify-content: center;
-                }
-                .container {
-                  background-color: #0F1012;
-                  border: 1px solid #1F2025;
-                  border-radius: 16px;
-                  padding: 48px;
-                  text-align: center;
-                  max-width: 400px;
-                  width: 90%;
-                  box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.3), 0 2px 4px -1px rgba(0, 0, 0, 0.2);
-                }
-                .logo {
-                  margin-bottom: 32px;
-                }
-                .success-icon {
-                  width: 64px;
-                  height: 64px;
-                  background: linear-gradient(135deg, #1C8AF8 0%, #60ADFA 100%);
-                  border-radius: 50%;
-                  display: flex;
-                  align-items: center;
-                  justify-content: center;
-                  margin: 0 auto 24px;
-                }
-                .success-icon svg {
-                  width: 32px;
-                  height: 32px;
-                }
-                h1 {
-                  font-size: 24px;
-                  font-weight: 600;
-                  margin-bottom: 8px;
-                  color: #F9FAFB;
-                }
-                .greeting {
-                  font-size: 16px;
-                  color: #98A1AE;
-                  margin-bottom: 24px;
-                }
-                .message {
-                  font-size: 14px;
-                  color: #697282;
-                  line-height: 1.5;
-                }
-                .close-hint {
-                  margin-top: 24px;
-                  padding-top: 24px;
-                  border-top: 1px solid #1F2025;
-                  font-size: 13px;
-                  color: #697282;
-                }
-              </style>
-            </head>
-            <body>
-              <div class="container">
-                <div class="logo">
-                  <svg xmlns="http://www.w3.org/2000/svg" width="41" height="25" viewBox="0 0 41 25" fill="none">
-                    <path d="M23.1244 23.6849C22.6097 24.7058 21.0702 24.3421 21.0668 23.1988L21.0015 1.1163C20.9987 0.188062 22.0857 -0.316302 22.7927 0.285127L39.6536 14.6273C40.526 15.3694 39.8055 16.782 38.6925 16.5114L28.8843 14.127C28.3931 14.0076 27.8845 14.2426 27.6569 14.6939L23.1244 23.6849Z" fill="white"/>
-                    <path d="M16.9597 23.6651C17.4771 24.6846 19.0157 24.3168 19.016 23.1735L19.0223 1.09085C19.0225 0.162606 17.9342 -0.338848 17.2288 0.26447L0.406372 14.6517C-0.464095 15.3961 0.260202 16.8068 1.37245 16.5333L11.1743 14.1226C11.6651 14.0019 12.1744 14.2355 12.4032 14.6862L16.9597 23.6651Z" fill="white"/>
-                  </svg>
-                </div>
-                <div class="success-icon">
-                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="white" stroke-width="3">
-                    <path stroke-linecap="round" stroke-linejoin="round" d="M5 13l4 4L19 7"/>
-                  </svg>
-                </div>
-                <h1>You're connected!</h1>
-                <p class="greeting">Welcome, ${safeDisplayName}</p>
-                <p class="message">You can close this tab and head back to your terminal.</p>
-                <p class="close-hint">Closing automatically...</p>
-              </div>
-              <script>setTimeout(() => window.close(), 3000);</script>
-            </body>
-          </html>
-        `);
-
-        // Save auth data
         const authData: AuthData = {
-          apiKey,
-          userId,
-          email: email || undefined,
-          name: name || undefined,
+          apiKey: credentials.apiKey,
+          userId: credentials.userId,
+          email: credentials.email || undefined,
+          name: credentials.name || undefined,
           createdAt: new Date().toISOString(),
         };
-        saveAuthData(authData);
+        storeLogin(authData, profile);
+
+        // Success response with Inflight branding
+        res.writeHead(200, { "Content-Type": "text/html" });
+        res.end(renderSuccessPage(authData.name || authData.email || "there"));
 
         server.close();
         resolve(authData);
-      } else {
-        // Unknown path
-        res.writeHead(404);
-        res.end("Not found");
+      } catch (exchangeError) {
+        const message = exchangeError instanceof Error ? exchangeError.message : String(exchangeError);
+        res.writeHead(400, { "Content-Type": "text/html" });
+        res.end(renderFailurePage("We couldn't complete sign-in. Please try again."));
+        server.close();
+        reject(new Error(message));
       }
     });
 
@@ -283,14 +760,19 @@ export async function authenticate(log: LogFn): Promise<AuthData> {
       }
 
       const port = address.port;
-      const authUrl = `${INFLIGHT_BASE}/mcp/auth?callback_port=${port}`;
+      redirectUri = `http://127.0.0.1:${port}/callback`;
+      const authUrl = new URL(`${INFLIGHT_BASE}/mcp/auth`);
+      authUrl.searchParams.set("callback_port", String(port));
+      authUrl.searchParams.set("state", state);
+      authUrl.searchParams.set("code_challenge", codeChallenge);
+      authUrl.searchParams.set("code_challenge_method", "S256");
 
       log(`Signing in — opening browser...`);
 
       try {
-        await openBrowser(authUrl);
+        await openBrowser(authUrl.toString());
       } catch (error) {
-        log(`Couldn't open browser. Visit this link to sign in: ${authUrl}`);
+        log(`Couldn't open browser. Visit this link to sign in: ${authUrl.toString()}`);
       }
     });
 
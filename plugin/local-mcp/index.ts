@@ -11,21 +11,102 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import type { ServerNotification } from "@modelcontextprotocol/sdk/types.js";
 import { execSync } from "child_process";
 import { readFileSync, existsSync } from "fs";
-import { join } from "path";
-import { getAuthData, saveAuthData, isAuthenticated, authenticate, clearAuthData } from "./auth.js";
+import { join, resolve } from "path";
+import { randomUUID } from "crypto";
+import { gzip, brotliCompress, constants as zlibConstants } from "zlib";
+import { promisify } from "util";
+import {
+  getAuthData,
+  saveAuthData,
+  isAuthenticated,
+  authenticate,
+  clearAuthData,
+  resolveAuthMode,
+  getCredentialSource,
+  getProfileContext,
+  getActiveProfileName,
+  getAuthEnvironment,
+  listProfiles,
+  switchProfile,
+  removeProfile,
+} from "./auth.js";
 import { analyzeProjectDependencies } from "./analyzers/dependency-analyzer.js";
 import {
   needsChunkedUpload,
   chunkFiles,
   calculateTotalSize as calculateChunkTotalSize,
+  calculateSerializedSize,
+  findOversizedFiles,
+  MAX_FILE_SIZE,
+  MAX_REQUEST_SIZE,
+  MAX_CHUNK_SIZE,
+  CHUNK_THRESHOLD,
   getChunkStats,
   readProjectFiles,
   readSpecificFiles,
+  createReadReport,
+  isFileContent,
+  getFileSize,
   type FileMap,
+  type ReadReport,
 } from "./utils/file-utils.js";
 import { toFriendlyMessage, resetMessageState } from "./utils/progress-messages.js";
+import {
+  scanFilesForSecrets,
+  scanDiffForSecrets,
+  redactSecrets,
+  redactFiles,
+  formatFindings,
+  type SecretFinding,
+} from "./utils/secret-scanner.js";
+import {
+  loadProjectConfig,
+  applyProjectFileFilters,
+  ProjectConfigError,
+  type LoadedProjectConfig,
+  type ProjectConfig,
+} from "./utils/project-config.js";
+import {
+  buildManifest,
+  diffManifest,
+  loadLocalManifest,
+  saveLocalManifest,
+  loadSandboxManifest,
+  saveSandboxManifest,
+  type FileManifest,
+} from "./utils/upload-manifest.js";
+import { withRetry, HttpError, parseRetryAfter } from "./utils/retry.js";
+import {
+  fingerprint,
+  loadUploadSession,
+  saveUploadSession,
+  clearUploadSession,
+  listRunningShares,
+  saveRunningShare,
+  clearRunningShare,
+  type RunningShare,
+} from "./utils/share-sessions.js";
+import { runWithConcurrency } from "./utils/concurrency.js";
+import { readSSE } from "./utils/sse-client.js";
+import {
+  getGitInfo,
+  getCurrentBranch,
+  gitExec,
+  getRangeGitInfo,
+  resolveShareRange,
+  addTemporaryWorktree,
+  isGitRepo,
+  GitRefError,
+  type GitInfo,
+  type BaseBranchSource,
+  type ShareRange,
+  type ShareRangeRequest,
+} from "./utils/git-utils.js";
+import { ShareWatcher, type WatchTrigger } from "./utils/share-watch.js";
+import { appendShareHistory, readShareHistory, type ShareHistoryEntry, type ShareMode } from "./utils/share-history.js";
 
 // Environment-based URL configuration
 // Set INFLIGHT_ENV=local in .mcp.json to use local dev servers
@@ -38,6 +119,14 @@ const ENVIRONMENTS = {
 const ENV = (process.env.INFLIGHT_ENV || "production") as keyof typeof ENVIRONMENTS;
 const SHARE_API_URL = process.env.SHARE_API_URL || ENVIRONMENTS[ENV].shareApi;
 
+// Chunked uploads: how many chunks are sent at once, and how request bodies are compressed
+// Set INFLIGHT_UPLOAD_CONCURRENCY=1 or INFLIGHT_UPLOAD_COMPRESSION=none to turn these off
+const UPLOAD_CONCURRENCY = Math.max(1, parseInt(process.env.INFLIGHT_UPLOAD_CONCURRENCY || "", 10) || 4);
+const UPLOAD_COMPRESSION: "gzip" | "br" | "identity" =
+  process.env.INFLIGHT_UPLOAD_COMPRESSION === "br" ? "br"
+    : process.env.INFLIGHT_UPLOAD_COMPRESSION === "none" ? "identity"
+      : "gzip";
+
 /**
  * Open a URL in the default browser
  */
@@ -61,95 +150,151 @@ function openInBrowser(url: string): void {
   }
 }
 
-/**
- * Get git information from a directory
- */
-function getGitInfo(dir: string): {
-  isGitRepo: boolean;
-  currentBranch?: string;
-  baseBranch?: string;
-  gitUrl?: string;
-  diff?: string;
-  diffStat?: string;
-  branchExistsOnRemote?: boolean;
-} {
+// ============= Share API Client =============
+
+async function shareApiHealthCheck(): Promise<boolean> {
   try {
-    execSync('git rev-parse --git-dir', { cwd: dir, stdio: 'pipe' });
+    const response = await fetch(`${SHARE_API_URL}/health`);
+    return response.ok;
   } catch {
-    return { isGitRepo: false };
+    return false;
   }
+}
 
-  try {
-    const currentBranch = execSync('git branch --show-current', { cwd: dir, encoding: 'utf-8' }).trim();
+/**
+ * Thrown when the Share API rejects our credentials (401/403).
+ * Stored credentials have already been cleared when this is thrown.
+ */
+class ShareApiAuthError extends Error {
+  constructor(public readonly status: number) {
+    super(
+      getCredentialSource() === "env"
+        ? `Inflight rejected INFLIGHT_API_KEY (${status}). It may be expired or revoked — set a new key and try again.`
+        : `Your Inflight session has expired or was revoked (${status}). Run inflight_login to sign in again.`
+    );
+    this.name = "ShareApiAuthError";
+  }
+}
 
-    let gitUrl: string | undefined;
-    try {
-      gitUrl = execSync('git remote get-url origin', { cwd: dir, encoding: 'utf-8' }).trim();
-    } catch {}
+/**
+ * Forget credentials the Share API has rejected so the next call starts a fresh login
+ */
+function handleRejectedCredentials(apiKey: string): void {
+  const source = getCredentialSource();
+  if (source === "env") {
+    envKeyValidation = null;
+  } else if (source === "file" && getAuthData()?.apiKey === apiKey) {
+    clearAuthData();
+  }
+}
 
-    // Determine base branch (main or master)
-    let baseBranch = 'main';
-    try {
-      execSync('git show-ref --verify --quiet refs/heads/main', { cwd: dir, stdio: 'pipe' });
-    } catch {
-      try {
-        execSync('git show-ref --verify --quiet refs/heads/master', { cwd: dir, stdio: 'pipe' });
-        baseBranch = 'master';
-      } catch {}
-    }
-
-    // Get diff against base branch
-    // Try local branch first, then remote tracking branch (handles worktree/stale local main)
-    let diff = '';
-    let diffStat = '';
-    const diffTargets = [
-      `${baseBranch}...HEAD`,
-      `origin/${baseBranch}...HEAD`,
-      'HEAD',
-    ];
-    for (const target of diffTargets) {
-      try {
-        const cmd = target === 'HEAD' ? 'git diff HEAD' : `git diff ${target}`;
-        diff = execSync(cmd, { cwd: dir, encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 });
-        diffStat = execSync(`${cmd} --stat`, { cwd: dir, encoding: 'utf-8' });
-        if (diff) break;
-      } catch {
-        continue;
-      }
-    }
+/**
+ * fetch() against the Share API with the given API key.
+ * Recognizes 401/403, clears the stale credentials and throws ShareApiAuthError.
+ */
+async function shareApiFetch(url: string, apiKey: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      ...(init.headers as Record<string, string> | undefined),
+      Authorization: `Bearer ${apiKey}`,
+    },
+  });
 
-    // Check if the current branch exists on the remote
-    let branchExistsOnRemote = false;
-    try {
-      const lsRemoteOutput = execSync(`git ls-remote --heads origin ${currentBranch}`, { cwd: dir, encoding: 'utf-8' }).trim();
-      branchExistsOnRemote = lsRemoteOutput.length > 0;
-    } catch {
-      branchExistsOnRemote = false;
+  if (response.status === 401 || response.status === 403) {
+    handleRejectedCredentials(apiKey);
+    throw new ShareApiAuthError(response.status);
+  }
+
+  return response;
+}
+
+/**
+ * Tool result for rejected credentials, pointing at the re-login flow
+ */
+function authErrorResult(error: ShareApiAuthError) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        error: error.message,
+        reauthenticate: getCredentialSource() !== "env",
+        ...(getCredentialSource() !== "env" && { nextStep: "Call inflight_login to sign in again, then retry." }),
+      }, null, 2),
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * User the API key belongs to, as reported by the Share API
+ */
+interface ApiKeyOwner {
+  userId: string;
+  email?: string;
+  name?: string;
+  expiresAt?: string | null;
+}
+
+type ApiKeyValidation =
+  | { valid: true; owner: ApiKeyOwner }
+  | { valid: false; rejected: boolean; error: string };
+
+/**
+ * Validate an API key against the Share API.
+ * `rejected` distinguishes a bad key from a network or server problem.
+ */
+async function validateApiKey(apiKey: string): Promise<ApiKeyValidation> {
+  try {
+    const response = await fetch(`${SHARE_API_URL}/share/me`, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      return { valid: false, rejected: true, error: "The API key was rejected by Inflight (invalid, expired or revoked)" };
+    }
+    if (!response.ok) {
+      return { valid: false, rejected: false, error: `Couldn't validate the API key (${response.status})` };
     }
 
-    return {
-      isGitRepo: true,
-      currentBranch,
-      baseBranch,
-      gitUrl,
-      diff,
-      diffStat,
-      branchExistsOnRemote,
-    };
+    const owner = await response.json() as ApiKeyOwner;
+    return { valid: true, owner };
   } catch {
-    return { isGitRepo: true };
+    return { valid: false, rejected: false, error: `Couldn't reach Share API at ${SHARE_API_URL} to validate the API key` };
   }
 }
 
-// ============= Share API Client =============
+let envKeyValidation: Promise<ApiKeyValidation> | null = null;
 
-async function shareApiHealthCheck(): Promise<boolean> {
-  try {
-    const response = await fetch(`${SHARE_API_URL}/health`);
-    return response.ok;
-  } catch {
-    return false;
+/**
+ * Validate INFLIGHT_API_KEY once per process and fill in the user it belongs to.
+ * Returns null when credentials don't come from the environment.
+ */
+function validateEnvCredentials(): Promise<ApiKeyValidation> | null {
+  if (getCredentialSource() !== "env") {
+    return null;
+  }
+
+  if (!envKeyValidation) {
+    envKeyValidation = (async () => {
+      const authData = getAuthData()!;
+      const result = await validateApiKey(authData.apiKey);
+      if (result.valid) {
+        saveAuthData({
+          ...authData,
+          userId: result.owner.userId,
+          email: result.owner.email,
+          name: result.owner.name,
+        });
+      } else {
+        // Allow a retry on the next call (e.g. the network was down at startup)
+        envKeyValidation = null;
+      }
+      return result;
+    })();
   }
+
+  return envKeyValidation;
 }
 
 // ============= MCP Server =============
@@ -187,47 +332,127 @@ async function log(message: string, level: "info" | "debug" | "warning" | "error
   }
 }
 
+/**
+ * Tool result shape shared by all tools
+ */
+type ToolResult = {
+  content: Array<{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }>;
+  isError?: boolean;
+};
+
+/**
+ * Wrap a tool handler so every result says which auth profile and
+ * environment it ran against
+ */
+function withProfileContext<A extends unknown[], R extends ToolResult>(
+  handler: (...args: A) => Promise<R>
+): (...args: A) => Promise<R> {
+  return async (...args: A) => {
+    const result = await handler(...args);
+    const { profile, environment } = getProfileContext();
+    return {
+      ...result,
+      content: [
+        ...result.content,
+        { type: "text" as const, text: `Inflight profile: ${profile} (${environment})` },
+      ],
+    };
+  };
+}
 
 // Tool: Check authentication status
 server.tool(
   "auth_status",
-  "Check if you're signed in to Inflight",
+  "Check if you're signed in to Inflight. Verifies the saved API key with Inflight and reports when it expires.",
   {},
-  async () => {
+  withProfileContext(async () => {
+    const source = getCredentialSource();
     const authData = getAuthData();
-    if (authData) {
+    if (!authData) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ authenticated: false }, null, 2),
+        }],
+      };
+    }
+
+    const validation = source === "env"
+      ? (await validateEnvCredentials())!
+      : await validateApiKey(authData.apiKey);
+
+    if (!validation.valid && validation.rejected) {
+      handleRejectedCredentials(authData.apiKey);
       return {
         content: [{
           type: "text" as const,
           text: JSON.stringify({
-            authenticated: true,
-            userId: authData.userId,
-            email: authData.email,
-            name: authData.name,
-            createdAt: authData.createdAt,
+            authenticated: false,
+            credentialSource: source,
+            error: source === "env"
+              ? `INFLIGHT_API_KEY is set but invalid: ${validation.error}`
+              : `${validation.error}. The saved credentials were cleared.`,
+            ...(source !== "env" && { nextStep: "Call inflight_login to sign in again." }),
           }, null, 2),
         }],
       };
     }
+
+    const expiresAt = validation.valid ? validation.owner.expiresAt || null : undefined;
+    const expiresInDays = expiresAt
+      ? Math.floor((new Date(expiresAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000))
+      : null;
+
     return {
       content: [{
         type: "text" as const,
-        text: JSON.stringify({ authenticated: false }, null, 2),
+        text: JSON.stringify({
+          authenticated: true,
+          verified: validation.valid,
+          credentialSource: source,
+          userId: authData.userId,
+          email: authData.email,
+          name: authData.name,
+          ...(source === "env"
+            ? { workspaceId: authData.defaultWorkspaceId || null }
+            : { createdAt: authData.createdAt }),
+          ...(validation.valid && { expiresAt }),
+          ...(expiresInDays !== null && expiresInDays <= 7 && {
+            warning: `Your API key expires in ${Math.max(expiresInDays, 0)} day(s). Run inflight_login with force=true to renew it.`,
+          }),
+          ...(!validation.valid && { warning: `Couldn't verify your API key right now: ${validation.error}` }),
+        }, null, 2),
       }],
     };
-  }
+  })
 );
 
 // Tool: Authenticate with Inflight
 server.tool(
   "inflight_login",
-  "Sign in to Inflight. Opens a browser window to log in.",
+  "Sign in to Inflight. Opens a browser window to log in, or shows a short code to enter in any browser when no local browser is available (SSH, dev containers).",
   {
     force: z.boolean().optional().describe("Force re-authentication even if already logged in"),
+    mode: z.enum(["auto", "browser", "device"]).optional().describe("Sign-in method: 'browser' opens a local browser, 'device' shows a code to approve from any browser, 'auto' picks based on whether a display is available (default: auto)"),
+    profile: z.string().optional().describe("Profile to sign in to, e.g. 'work' or 'personal' (defaults to the active profile). The profile becomes active for the current environment."),
   },
-  async (args) => {
-    // Check if already authenticated
-    const existingAuth = getAuthData();
+  withProfileContext(async (args, extra) => {
+    if (getCredentialSource() === "env") {
+      return {
+        content: [{
+          type: "text" as const,
+          text: "INFLIGHT_API_KEY is set, so Inflight uses that key instead of a browser login. Unset it to sign in interactively.",
+        }],
+        isError: true,
+      };
+    }
+
+    // Check if already authenticated (in the requested profile)
+    const profile = args.profile || getActiveProfileName();
+    if (profile !== getActiveProfileName() && !args.force && switchProfile(profile)) {
+      console.error(`[Local MCP] Switched to existing profile "${profile}"`);
+    }
+    const existingAuth = profile === getActiveProfileName() ? getAuthData() : null;
     if (existingAuth && !args.force) {
       console.error(`[Local MCP] Already authenticated as ${existingAuth.email || existingAuth.userId}`);
       return {
@@ -244,9 +469,28 @@ server.tool(
       };
     }
 
-    console.error(`[Local MCP] Starting authentication flow...`);
+    const mode = resolveAuthMode(args.mode);
+    const progressToken = (extra as any)._meta?.progressToken;
+
+    // Sign-in instructions (e.g. the device code) must reach the user while we wait,
+    // so send them as log and progress notifications rather than stderr only
+    const notify = async (message: string) => {
+      await log(message);
+      if (progressToken && extra.sendNotification) {
+        try {
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, progress: 0, total: 100, message },
+          });
+        } catch {
+          // Ignore errors sending progress
+        }
+      }
+    };
+
+    console.error(`[Local MCP] Starting authentication flow (${mode})...`);
     try {
-      const authData = await authenticate((msg) => console.error(`[Local MCP] ${msg}`));
+      const authData = await authenticate((msg) => { void notify(msg); }, { mode, profile });
       return {
         content: [{
           type: "text" as const,
@@ -255,6 +499,7 @@ server.tool(
             message: `Authenticated as ${authData.email || authData.name || authData.userId}`,
             userId: authData.userId,
             email: authData.email,
+            mode,
           }, null, 2),
         }],
       };
@@ -265,26 +510,123 @@ server.tool(
         isError: true,
       };
     }
-  }
+  })
 );
 
 // Tool: Logout from Inflight
 server.tool(
   "inflight_logout",
-  "Sign out of Inflight",
-  {},
-  async () => {
-    const wasAuthenticated = isAuthenticated();
-    clearAuthData();
+  "Sign out of Inflight (removes the active profile's saved credentials for the current environment)",
+  {
+    profile: z.string().optional().describe("Profile to sign out of (defaults to the active profile)"),
+  },
+  withProfileContext(async (args) => {
+    if (getCredentialSource() === "env") {
+      return {
+        content: [{
+          type: "text" as const,
+          text: "Signed in with INFLIGHT_API_KEY from the environment. Unset INFLIGHT_API_KEY to sign out.",
+        }],
+      };
+    }
+
+    const wasAuthenticated = clearAuthData(args.profile);
     return {
       content: [{
         type: "text" as const,
         text: wasAuthenticated
           ? "Signed out of Inflight."
-          : "You weren't signed in.",
+          : args.profile
+            ? `No saved sign-in for profile "${args.profile}".`
+            : "You weren't signed in.",
       }],
     };
-  }
+  })
+);
+
+// Tool: List auth profiles
+server.tool(
+  "list_profiles",
+  "List saved Inflight sign-in profiles for every environment (local, staging, production) and show which one is active.",
+  {},
+  withProfileContext(async () => {
+    const profiles = listProfiles();
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          environment: getAuthEnvironment(),
+          activeProfile: getActiveProfileName(),
+          ...(process.env.INFLIGHT_PROFILE && { profileFromEnv: process.env.INFLIGHT_PROFILE }),
+          ...(getCredentialSource() === "env" && { note: "INFLIGHT_API_KEY is set and takes precedence over saved profiles" }),
+          profiles,
+        }, null, 2),
+      }],
+    };
+  })
+);
+
+// Tool: Switch auth profile
+server.tool(
+  "switch_profile",
+  "Switch the active Inflight sign-in profile for the current environment.",
+  {
+    profile: z.string().describe("Name of a saved profile (see list_profiles)"),
+  },
+  withProfileContext(async (args) => {
+    if (!switchProfile(args.profile)) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            success: false,
+            error: `No profile "${args.profile}" saved for the ${getAuthEnvironment()} environment. Sign in with inflight_login and profile="${args.profile}" to create it.`,
+            availableProfiles: listProfiles()
+              .filter((p) => p.environment === getAuthEnvironment())
+              .map((p) => p.name),
+          }, null, 2),
+        }],
+        isError: true,
+      };
+    }
+
+    const authData = getAuthData();
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          message: `Switched to profile "${args.profile}"${authData ? ` (${authData.email || authData.name || authData.userId})` : ""}`,
+          ...(process.env.INFLIGHT_PROFILE && {
+            warning: `INFLIGHT_PROFILE=${process.env.INFLIGHT_PROFILE} is set and overrides the saved selection for this session`,
+          }),
+        }, null, 2),
+      }],
+    };
+  })
+);
+
+// Tool: Remove auth profile
+server.tool(
+  "remove_profile",
+  "Remove a saved Inflight sign-in profile and its credentials.",
+  {
+    profile: z.string().describe("Name of the profile to remove"),
+    environment: z.enum(["local", "staging", "production"]).optional().describe("Environment the profile belongs to (defaults to the current environment)"),
+  },
+  withProfileContext(async (args) => {
+    const environment = args.environment || getAuthEnvironment();
+    const removed = removeProfile(args.profile, environment);
+    return {
+      content: [{
+        type: "text" as const,
+        text: removed
+          ? `Removed profile "${args.profile}" (${environment}).`
+          : `No profile "${args.profile}" saved for the ${environment} environment.`,
+      }],
+      ...(!removed && { isError: true }),
+    };
+  })
 );
 
 // Tool: List workspaces
@@ -292,7 +634,7 @@ server.tool(
   "list_workspaces",
   "List all InFlight workspaces the user belongs to. Shows which workspace is currently selected.",
   {},
-  async () => {
+  withProfileContext(async () => {
     const authData = getAuthData();
     if (!authData) {
       return {
@@ -302,9 +644,7 @@ server.tool(
     }
 
     try {
-      const response = await fetch(`${SHARE_API_URL}/share/workspaces`, {
-        headers: { Authorization: `Bearer ${authData.apiKey}` },
-      });
+      const response = await shareApiFetch(`${SHARE_API_URL}/share/workspaces`, authData.apiKey);
 
       if (!response.ok) {
         return {
@@ -326,13 +666,16 @@ server.tool(
           }, null, 2),
         }],
       };
-    } catch {
+    } catch (error) {
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
       return {
         content: [{ type: "text" as const, text: `Error: Could not reach Share API at ${SHARE_API_URL}` }],
         isError: true,
       };
     }
-  }
+  })
 );
 
 // Tool: Set active workspace
@@ -342,7 +685,7 @@ server.tool(
   {
     workspaceId: z.string().describe("The workspace ID to set as active"),
   },
-  async (args) => {
+  withProfileContext(async (args) => {
     const authData = getAuthData();
     if (!authData) {
       return {
@@ -353,9 +696,7 @@ server.tool(
 
     // Verify the workspace exists and user has access
     try {
-      const response = await fetch(`${SHARE_API_URL}/share/workspaces`, {
-        headers: { Authorization: `Bearer ${authData.apiKey}` },
-      });
+      const response = await shareApiFetch(`${SHARE_API_URL}/share/workspaces`, authData.apiKey);
 
       if (response.ok) {
         const result = await response.json() as {
@@ -392,7 +733,10 @@ server.tool(
           }],
         };
       }
-    } catch {
+    } catch (error) {
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
       // Fall through
     }
 
@@ -410,584 +754,2867 @@ server.tool(
         }, null, 2),
       }],
     };
-  }
+  })
 );
 
-// Tool: Get git info
-server.tool(
-  "get_git_info",
-  "Get branch and change info from a git project",
-  {
-    directory: z.string().optional().describe("Directory path (defaults to cwd)"),
-  },
-  async (args) => {
-    const dir = args.directory || process.cwd();
-    console.error(`[Local MCP] Getting git info for: ${dir}`);
+/**
+ * Prototype as returned by the Share API
+ */
+interface PrototypeSummary {
+  sandboxId: string;
+  projectId: string;
+  projectName: string;
+  type: string;
+  status: string;
+  inflightUrl?: string;
+  versionId?: string;
+  workspaceId?: string;
+  createdAt: string;
+}
 
-    const info = getGitInfo(dir);
+/**
+ * Fetch one page of prototypes from the Share API
+ */
+async function fetchPrototypes(
+  apiKey: string,
+  options: { workspaceId?: string; limit?: number; offset?: number }
+): Promise<{ prototypes: PrototypeSummary[]; total?: number; hasMore: boolean }> {
+  const url = new URL(`${SHARE_API_URL}/share/prototypes`);
+  if (options.workspaceId) {
+    url.searchParams.set("workspaceId", options.workspaceId);
+  }
+  if (options.limit !== undefined) {
+    url.searchParams.set("limit", String(options.limit));
+  }
+  if (options.offset !== undefined) {
+    url.searchParams.set("offset", String(options.offset));
+  }
 
-    return {
-      content: [{
-        type: "text" as const,
-        text: JSON.stringify(info, null, 2),
-      }],
-    };
+  const response = await shareApiFetch(url.toString(), apiKey);
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Failed to list prototypes (${response.status}): ${text || response.statusText}`);
   }
-);
 
-// Tool: Analyze dependencies for partial share
+  const result = await response.json() as {
+    prototypes: PrototypeSummary[];
+    total?: number;
+    hasMore?: boolean;
+  };
+
+  return {
+    prototypes: result.prototypes || [],
+    total: result.total,
+    hasMore: result.hasMore === true,
+  };
+}
+
+// Tool: List prototypes
 server.tool(
-  "analyze_dependencies",
-  "Analyze which files are needed for a partial share based on what changed.",
+  "prototype_list",
+  "List shared Inflight prototypes with their sandbox ID, project, type, status, URL and created date.",
   {
-    projectPath: z.string().describe("Absolute path to the project root directory"),
-    changedFiles: z.array(z.string()).optional().describe("Array of changed file paths relative to project root. Auto-detected from git diff if not provided."),
-    baseBranch: z.string().optional().describe("Base branch to diff against (default: main or master)"),
+    workspaceId: z.string().optional().describe("Only list prototypes in this workspace (defaults to the active workspace)"),
+    allWorkspaces: z.boolean().optional().describe("List prototypes across all workspaces instead of the active one"),
+    limit: z.number().int().min(1).max(100).optional().describe("Maximum number of prototypes to return (default: 20)"),
+    offset: z.number().int().min(0).optional().describe("Number of prototypes to skip, for pagination (default: 0)"),
   },
-  async (args) => {
-    console.error(`[Local MCP] Analyzing dependencies for: ${args.projectPath}`);
+  withProfileContext(async (args) => {
+    const authData = getAuthData();
+    if (!authData) {
+      return {
+        content: [{ type: "text" as const, text: "Not authenticated. Please run inflight_login first." }],
+        isError: true,
+      };
+    }
+
+    const workspaceId = args.allWorkspaces ? undefined : (args.workspaceId || authData.defaultWorkspaceId);
+    const limit = args.limit ?? 20;
+    const offset = args.offset ?? 0;
 
     try {
-      const result = await analyzeProjectDependencies(
-        args.projectPath,
-        args.changedFiles,
-        args.baseBranch
-      );
-
-      console.error(`[Local MCP] Analysis complete in ${result.metadata.analysisTimeMs}ms`);
-      console.error(`[Local MCP]   Changed files: ${result.changedFiles.length}`);
-      console.error(`[Local MCP]   Entry points: ${result.metadata.entryPoints.length}`);
-      console.error(`[Local MCP]   Local files: ${result.dependencies.localFiles.length}`);
-      console.error(`[Local MCP]   NPM packages: ${result.dependencies.npmPackages.length}`);
-      console.error(`[Local MCP]   Workspace packages: ${result.dependencies.workspacePackages.length}`);
+      const result = await fetchPrototypes(authData.apiKey, { workspaceId, limit, offset });
 
       return {
         content: [{
           type: "text" as const,
-          text: JSON.stringify(result, null, 2),
+          text: JSON.stringify({
+            prototypes: result.prototypes.map((p) => ({
+              sandboxId: p.sandboxId,
+              projectId: p.projectId,
+              projectName: p.projectName,
+              type: p.type,
+              status: p.status,
+              inflightUrl: p.inflightUrl || null,
+              versionId: p.versionId || null,
+              createdAt: p.createdAt,
+            })),
+            workspaceId: workspaceId || null,
+            pagination: {
+              limit,
+              offset,
+              total: result.total ?? null,
+              hasMore: result.hasMore,
+              ...(result.hasMore && { nextOffset: offset + result.prototypes.length }),
+            },
+          }, null, 2),
         }],
       };
     } catch (error) {
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
       const message = error instanceof Error ? error.message : String(error);
-      console.error(`[Local MCP] Analysis failed: ${message}`);
+      console.error(`[Local MCP] prototype_list failed: ${message}`);
       return {
         content: [{ type: "text" as const, text: `Error: ${message}` }],
         isError: true,
       };
     }
-  }
+  })
 );
 
-// Tool: Check Existing Versions
+// Tool: Delete prototype
 server.tool(
-  "check_existing_versions",
-  "Check if a git repository has been shared to Inflight before. Returns project info and version count if found. Use this before sharing to let the user decide whether to add a new version or create a new project.",
+  "prototype_delete",
+  "Delete an Inflight prototype by sandbox ID or project name. This can't be undone.",
   {
-    directory: z.string().optional().describe("Project directory (defaults to cwd)"),
-    workspaceId: z.string().optional().describe("Inflight workspace ID to check in"),
+    sandboxId: z.string().optional().describe("Sandbox ID of the prototype to delete"),
+    projectName: z.string().optional().describe("Project name of the prototype to delete (must match exactly one prototype)"),
+    workspaceId: z.string().optional().describe("Workspace to search when deleting by project name (defaults to the active workspace)"),
   },
-  async (args) => {
-    const dir = args.directory || process.cwd();
-
-    // Get git remote URL
-    const gitInfo = getGitInfo(dir);
-    if (!gitInfo.isGitRepo || !gitInfo.gitUrl) {
-      return {
-        content: [{ type: "text" as const, text: JSON.stringify({ found: false, error: "Not a git repository or no remote configured" }) }],
-      };
-    }
-
-    // Ensure authenticated
-    if (!isAuthenticated()) {
+  withProfileContext(async (args) => {
+    const authData = getAuthData();
+    if (!authData) {
       return {
-        content: [{ type: "text" as const, text: JSON.stringify({ found: false, error: "Not authenticated. Please run inflight_login first." }) }],
+        content: [{ type: "text" as const, text: "Not authenticated. Please run inflight_login first." }],
+        isError: true,
       };
     }
 
-    const auth = getAuthData();
-    if (!auth?.apiKey) {
+    if (!args.sandboxId && !args.projectName) {
       return {
-        content: [{ type: "text" as const, text: JSON.stringify({ found: false, error: "No API key. Please run inflight_login first." }) }],
+        content: [{ type: "text" as const, text: "Provide either a sandboxId or a projectName to delete." }],
+        isError: true,
       };
     }
 
     try {
-      const url = new URL(`${SHARE_API_URL}/share/lookup`);
-      url.searchParams.set("gitRemoteUrl", gitInfo.gitUrl);
-      if (args.workspaceId) {
-        url.searchParams.set("workspaceId", args.workspaceId);
-      }
+      let target: { sandboxId: string; projectName?: string } | undefined;
 
-      const response = await fetch(url.toString(), {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${auth.apiKey}`,
-        },
-      });
+      if (args.sandboxId) {
+        target = { sandboxId: args.sandboxId };
+      } else {
+        // Resolve the project name to a single sandbox by paging through prototypes
+        const wanted = args.projectName!.trim().toLowerCase();
+        const workspaceId = args.workspaceId || authData.defaultWorkspaceId;
+        const matches: PrototypeSummary[] = [];
+        let offset = 0;
+        while (true) {
+          const page = await fetchPrototypes(authData.apiKey, { workspaceId, limit: 100, offset });
+          matches.push(...page.prototypes.filter((p) => p.projectName?.trim().toLowerCase() === wanted));
+          if (!page.hasMore || page.prototypes.length === 0) break;
+          offset += page.prototypes.length;
+        }
 
-      if (!response.ok) {
-        const text = await response.text();
-        console.error(`[Local MCP] Lookup failed: ${response.status} ${text}`);
-        return {
-          content: [{ type: "text" as const, text: JSON.stringify({ found: false, error: `Lookup failed: ${response.status}` }) }],
-        };
+        if (matches.length === 0) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                deleted: false,
+                error: `No prototype found with project name "${args.projectName}". Call prototype_list to see available prototypes.`,
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        if (matches.length > 1) {
+          return {
+            content: [{
+              type: "text" as const,
+              text: JSON.stringify({
+                deleted: false,
+                error: `${matches.length} prototypes match project name "${args.projectName}". Call prototype_delete again with one of these sandbox IDs.`,
+                matches: matches.map((p) => ({
+                  sandboxId: p.sandboxId,
+                  projectName: p.projectName,
+                  status: p.status,
+                  createdAt: p.createdAt,
+                })),
+              }, null, 2),
+            }],
+            isError: true,
+          };
+        }
+
+        target = { sandboxId: matches[0].sandboxId, projectName: matches[0].projectName };
       }
 
-      const data = await response.json() as { found: boolean; project: any };
+      const response = await shareApiFetch(`${SHARE_API_URL}/share/prototypes/${encodeURIComponent(target.sandboxId)}`, authData.apiKey, {
+        method: "DELETE",
+      });
 
-      if (data.found && data.project) {
+      if (response.status === 404) {
         return {
           content: [{
             type: "text" as const,
             text: JSON.stringify({
-              found: true,
-              project: data.project,
-              message: `This repository has been shared before. Project "${data.project.name}" has ${data.project.versionCount} version(s). ` +
-                `To add a new version (V${data.project.versionCount + 1}), use existingProjectId="${data.project.id}" when calling share. ` +
-                `Otherwise, a new project will be created.`,
+              deleted: false,
+              error: `No prototype found with sandbox ID "${target.sandboxId}". It may already have been deleted.`,
             }, null, 2),
           }],
+          isError: true,
         };
       }
 
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Delete failed (${response.status}): ${text || response.statusText}`);
+      }
+
       return {
-        content: [{ type: "text" as const, text: JSON.stringify({ found: false, message: "No existing project found for this repository. A new project will be created." }) }],
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            deleted: true,
+            sandboxId: target.sandboxId,
+            ...(target.projectName && { projectName: target.projectName }),
+            message: `Deleted prototype ${target.projectName ? `"${target.projectName}" ` : ""}(${target.sandboxId}).`,
+          }, null, 2),
+        }],
       };
     } catch (error) {
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
       const message = error instanceof Error ? error.message : String(error);
-      console.error(`[Local MCP] check_existing_versions failed: ${message}`);
+      console.error(`[Local MCP] prototype_delete failed: ${message}`);
       return {
-        content: [{ type: "text" as const, text: JSON.stringify({ found: false, error: message }) }],
+        content: [{ type: "text" as const, text: `Error: ${message}` }],
+        isError: true,
       };
     }
-  }
+  })
 );
 
-// Tool: Share
+// Tool: List projects
 server.tool(
-  "share",
-  "Share your project to Inflight for review. Uploads your code, builds a live prototype, and creates a shareable link.",
+  "list_projects",
+  "List Inflight projects in a workspace with their name, description, version count and created date.",
   {
-    directory: z.string().optional().describe("Project directory (defaults to cwd)"),
-    workspaceId: z.string().optional().describe("Inflight workspace ID"),
-    existingProjectId: z.string().optional().describe("Add version to existing project"),
-    useStaticAnalysis: z.boolean().optional().describe("Use static dependency analysis to upload only relevant files (experimental, default: false)"),
+    workspaceId: z.string().optional().describe("Workspace to list projects from (defaults to the active workspace)"),
+    limit: z.number().int().min(1).max(100).optional().describe("Maximum number of projects to return (default: 20)"),
+    offset: z.number().int().min(0).optional().describe("Number of projects to skip, for pagination (default: 0)"),
   },
-  async (args, extra) => {
-    const dir = args.directory || process.cwd();
-
-    // Get progressToken from _meta - required for progress notifications to show in Claude Code
-    const progressToken = (extra as any)._meta?.progressToken;
+  withProfileContext(async (args) => {
+    const authData = getAuthData();
+    if (!authData) {
+      return {
+        content: [{ type: "text" as const, text: "Not authenticated. Please run inflight_login first." }],
+        isError: true,
+      };
+    }
 
-    // Reset friendly message deduplication state for this share operation
-    resetMessageState();
+    const workspaceId = args.workspaceId || authData.defaultWorkspaceId;
+    const limit = args.limit ?? 20;
+    const offset = args.offset ?? 0;
 
-    // Helper to send progress notifications to MCP client
-    // Logs the raw message for debugging, but shows a friendly version to the user
-    const sendProgress = async (progress: number, total: number, message?: string) => {
-      if (message) {
-        // Always log the raw technical message to stderr for debugging
-        await log(`[${progress}%] ${message}`);
+    try {
+      const url = new URL(`${SHARE_API_URL}/share/projects`);
+      if (workspaceId) {
+        url.searchParams.set("workspaceId", workspaceId);
       }
+      url.searchParams.set("limit", String(limit));
+      url.searchParams.set("offset", String(offset));
 
-      if (message && progressToken && extra.sendNotification) {
-        // Map to a friendly user-facing message (with deduplication)
-        const friendly = toFriendlyMessage(progress, message);
-        if (friendly) {
-          try {
-            await extra.sendNotification({
-              method: "notifications/progress",
-              params: {
-                progressToken,
-                progress,
-                total,
-                message: friendly,
-              },
-            });
-          } catch {
-            // Ignore errors sending progress
-          }
-        }
+      const response = await shareApiFetch(url.toString(), authData.apiKey);
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Failed to list projects (${response.status}): ${text || response.statusText}`);
       }
-    };
 
-    await sendProgress(0, 100, "Preparing to share...");
+      const result = await response.json() as {
+        projects: Array<{
+          id: string;
+          name: string;
+          description: string | null;
+          versionCount?: number;
+          createdAt: string;
+        }>;
+        total?: number;
+        hasMore?: boolean;
+      };
+      const projects = result.projects || [];
+      const hasMore = result.hasMore === true;
 
-    if (!existsSync(dir)) {
       return {
-        content: [{ type: "text" as const, text: `Couldn't find that directory: ${dir}` }],
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            projects,
+            workspaceId: workspaceId || null,
+            pagination: {
+              limit,
+              offset,
+              total: result.total ?? null,
+              hasMore,
+              ...(hasMore && { nextOffset: offset + projects.length }),
+            },
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Local MCP] list_projects failed: ${message}`);
+      return {
+        content: [{ type: "text" as const, text: `Error: ${message}` }],
         isError: true,
       };
     }
+  })
+);
+
+// Tool: Get git info
+server.tool(
+  "get_git_info",
+  "Get branch and change info from a git project",
+  {
+    directory: z.string().optional().describe("Directory path (defaults to cwd)"),
+  },
+  withProfileContext(async (args) => {
+    const dir = args.directory || process.cwd();
+    console.error(`[Local MCP] Getting git info for: ${dir}`);
+
+    const info = await getGitInfo(dir);
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify(info, null, 2),
+      }],
+    };
+  })
+);
+
+// Tool: Analyze dependencies for partial share
+server.tool(
+  "analyze_dependencies",
+  "Analyze which files are needed for a partial share based on what changed.",
+  {
+    projectPath: z.string().describe("Absolute path to the project root directory"),
+    changedFiles: z.array(z.string()).optional().describe("Array of changed file paths relative to project root. Auto-detected from git diff if not provided."),
+    baseBranch: z.string().optional().describe("Base branch to diff against (default: baseBranch from inflight.config.json, else detected from the branch's upstream, origin/HEAD, init.defaultBranch, or main/master)"),
+  },
+  withProfileContext(async (args) => {
+    console.error(`[Local MCP] Analyzing dependencies for: ${args.projectPath}`);
+
+    try {
+      const { config } = loadProjectConfig(args.projectPath);
+      const result = await analyzeProjectDependencies(
+        args.projectPath,
+        args.changedFiles,
+        args.baseBranch || config.baseBranch
+      );
+
+      console.error(`[Local MCP] Analysis complete in ${result.metadata.analysisTimeMs}ms`);
+      console.error(`[Local MCP]   Changed files: ${result.changedFiles.length}`);
+      console.error(`[Local MCP]   Entry points: ${result.metadata.entryPoints.length}`);
+      console.error(`[Local MCP]   Local files: ${result.dependencies.localFiles.length}`);
+      console.error(`[Local MCP]   NPM packages: ${result.dependencies.npmPackages.length}`);
+      console.error(`[Local MCP]   Workspace packages: ${result.dependencies.workspacePackages.length}`);
 
-    // Step 1: Check Share API is running
-    await sendProgress(2, 100, "Connecting to Inflight...");
-    const csbHealthy = await shareApiHealthCheck();
-    if (!csbHealthy) {
       return {
         content: [{
           type: "text" as const,
-          text: `Couldn't reach Inflight servers. Check your internet connection and try again.`,
+          text: JSON.stringify(result, null, 2),
         }],
-        isError: true,
       };
-    }
-
-    // Step 2: Get git info
-    await sendProgress(5, 100, "Reading your changes...");
-    const gitInfo = getGitInfo(dir);
-    if (!gitInfo.isGitRepo) {
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Local MCP] Analysis failed: ${message}`);
       return {
-        content: [{ type: "text" as const, text: "This folder isn't a git repo — make sure you're in the right project directory." }],
+        content: [{ type: "text" as const, text: `Error: ${message}` }],
         isError: true,
       };
     }
+  })
+);
 
-    const isFullShare = !gitInfo.diff;
-    if (isFullShare) {
-      await log("No branch diff found — sharing the full project instead.");
-    }
+/**
+ * Find the Inflight project a git remote was shared to before
+ */
+async function lookupProject(
+  apiKey: string,
+  gitRemoteUrl: string,
+  workspaceId?: string
+): Promise<{ found: boolean; project: any }> {
+  const url = new URL(`${SHARE_API_URL}/share/lookup`);
+  url.searchParams.set("gitRemoteUrl", gitRemoteUrl);
+  if (workspaceId) {
+    url.searchParams.set("workspaceId", workspaceId);
+  }
 
-    await log(`Branch: ${gitInfo.currentBranch}`);
+  const response = await shareApiFetch(url.toString(), apiKey, {
+    method: "GET",
+  });
 
-    // Step 3: Check auth (before file reading to enable clone check)
-    let authData = getAuthData();
-    if (!authData) {
-      await sendProgress(8, 100, "Authenticating with InFlight...");
-      try {
-        authData = await authenticate((msg) => log(msg));
-      } catch (authError) {
-        const authMessage = authError instanceof Error ? authError.message : String(authError);
-        return {
-          content: [{ type: "text" as const, text: `Couldn't sign in to Inflight. Try running /inflight login first.\n\n${authMessage}` }],
-          isError: true,
-        };
+  if (!response.ok) {
+    const text = await response.text();
+    console.error(`[Local MCP] Lookup failed: ${response.status} ${text}`);
+    throw new Error(`Lookup failed: ${response.status}`);
+  }
+
+  return await response.json() as { found: boolean; project: any };
+}
+
+// Tool: Check Existing Versions
+server.tool(
+  "check_existing_versions",
+  "Check if a git repository has been shared to Inflight before. Returns project info and version count if found. Use this before sharing to let the user decide whether to add a new version or create a new project.",
+  {
+    directory: z.string().optional().describe("Project directory (defaults to cwd)"),
+    workspaceId: z.string().optional().describe("Inflight workspace ID to check in (default: workspaceId from inflight.config.json)"),
+  },
+  withProfileContext(async (args) => {
+    const dir = args.directory || process.cwd();
+
+    let projectConfig: LoadedProjectConfig;
+    try {
+      projectConfig = loadProjectConfig(dir);
+    } catch (error) {
+      if (error instanceof ProjectConfigError) {
+        return projectConfigErrorResult(error);
       }
+      throw error;
     }
+    const { config } = projectConfig;
+    const workspaceId = args.workspaceId || config.workspaceId;
 
-    // Step 3b: Resolve workspace if not provided
-    // Priority: explicit arg > saved default > API lookup
-    let resolvedWorkspaceId: string | undefined = args.workspaceId || authData.defaultWorkspaceId;
-    let resolvedWorkspaceName: string | undefined;
-    if (!resolvedWorkspaceId) {
-      try {
-        await sendProgress(9, 100, "Looking up your workspaces...");
-        const wsResponse = await fetch(`${SHARE_API_URL}/share/workspaces`, {
-          headers: {
-            Authorization: `Bearer ${authData.apiKey}`,
-          },
-        });
-        if (wsResponse.ok) {
-          const wsResult = await wsResponse.json() as {
-            workspaces: Array<{ id: string; name: string; slug: string; avatarUrl: string | null }>;
-          };
-          if (wsResult.workspaces.length === 0) {
-            return {
-              content: [{ type: "text" as const, text: "Error: You don't belong to any InFlight workspaces. Please create a workspace first at https://www.inflight.co" }],
-              isError: true,
-            };
-          } else {
-            // Auto-select first workspace (user can change with set_workspace)
-            resolvedWorkspaceId = wsResult.workspaces[0].id;
-            resolvedWorkspaceName = wsResult.workspaces[0].name;
-            // Save as default so we don't look up again next time
-            authData.defaultWorkspaceId = resolvedWorkspaceId;
-            saveAuthData(authData);
-            await log(`  Auto-selected workspace: ${resolvedWorkspaceName} (${wsResult.workspaces.length} workspace${wsResult.workspaces.length > 1 ? 's' : ''} available)`);
-          }
-        }
-      } catch {
-        await log("  Workspace lookup failed, proceeding without workspace selection");
-      }
+    // Get git remote URL (the base branch doesn't matter here)
+    const gitInfo = await getGitInfo(dir);
+    if (!gitInfo.isGitRepo || !gitInfo.gitUrl) {
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify({ found: false, error: "Not a git repository or no remote configured" }) }],
+      };
     }
 
-    // Step 3c: Check if git clone mode is available (skip file upload if so)
-    let useGitClone = false;
-    let githubAppTip: string | null = null;
-    let branchNotPushedTip: string | null = null;
-    if (gitInfo.gitUrl && resolvedWorkspaceId) {
-      // First check: is the branch pushed to the remote?
-      if (!gitInfo.branchExistsOnRemote) {
-        await log(`  Branch "${gitInfo.currentBranch}" not found on remote — clone mode requires pushed branches`);
-        branchNotPushedTip = `Your branch "${gitInfo.currentBranch}" hasn't been pushed to the remote yet. Push it with \`git push -u origin ${gitInfo.currentBranch}\` to enable faster sharing via git clone.`;
-      } else {
-        try {
-          await sendProgress(9, 100, "Checking repository access...");
-          const checkResponse = await fetch(`${SHARE_API_URL}/share/check-clone`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${authData.apiKey}`,
-            },
-            body: JSON.stringify({
-              gitUrl: gitInfo.gitUrl,
-              workspaceId: resolvedWorkspaceId,
-            }),
-          });
-          if (checkResponse.ok) {
-            const checkResult = await checkResponse.json() as { cloneAvailable: boolean; workspaceSlug?: string };
-            useGitClone = checkResult.cloneAvailable === true;
-            if (useGitClone) {
-              await log(`  Git clone available for ${gitInfo.gitUrl}`);
-            } else if (gitInfo.gitUrl.includes("github")) {
-              // GitHub repo detected but no app installed - prompt user to install
-              await log(`  GitHub repo detected but InFlight GitHub App not installed for this workspace`);
-              const installUrl = checkResult.workspaceSlug
-                ? `https://www.inflight.co/${checkResult.workspaceSlug}/settings/integrations`
-                : "https://www.inflight.co";
-              githubAppTip = `The InFlight GitHub App is not installed for this repository. Installing it will make sharing significantly faster by cloning your repo directly instead of uploading files. Would you like to install it? Go to: ${installUrl}`;
-            }
-          }
-        } catch {
-          await log(`  Clone check failed, falling back to file upload`);
-        }
-      }
+    // Ensure authenticated
+    if (!isAuthenticated()) {
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify({ found: false, error: "Not authenticated. Please run inflight_login first." }) }],
+      };
     }
 
-    if (useGitClone) {
-      // Clone-based share: skip file reading/upload entirely
-      await sendProgress(10, 100, "Git clone available, skipping file upload...");
+    const auth = getAuthData();
+    if (!auth?.apiKey) {
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify({ found: false, error: "No API key. Please run inflight_login first." }) }],
+      };
+    }
 
-      try {
-        const result = await callCloneShareWithSSE(
-          {
-            gitDiff: {
-              diff: gitInfo.diff,
-              diffStat: gitInfo.diffStat || '',
-              baseBranch: gitInfo.baseBranch || 'main',
-              currentBranch: gitInfo.currentBranch || 'unknown',
-            },
-            gitUrl: gitInfo.gitUrl!,
-            currentBranch: gitInfo.currentBranch || 'unknown',
-            workspaceId: resolvedWorkspaceId!,
-            existingProjectId: args.existingProjectId,
-          },
-          authData.apiKey,
-          // Remap server percentages (0-100) to our range (10-100)
-          // so progress never jumps backwards after local steps reach 10%
-          async (percentage: number, step: string) => {
-            const remapped = 10 + Math.floor((percentage / 100) * 90);
-            await sendProgress(remapped, 100, step);
-          },
-          async (message: string) => {
-            await log(`Server error: ${message}`, "error");
-          }
-        );
+    try {
+      const data = await lookupProject(auth.apiKey, gitInfo.gitUrl, workspaceId);
 
-        await sendProgress(100, 100, "Share complete!");
-        await log("========== SUCCESS (clone mode) ==========");
-        await log(`Preview URL: ${result.previewUrl}`);
-        await log(`InFlight URL: ${result.inflightUrl}`);
-
-        openInBrowser(result.inflightUrl);
-        await log("Opening InFlight in browser...");
+      // A projectId in the project config is used by share unless overridden
+      const configuredProject = config.projectId
+        ? { configuredProjectId: config.projectId, configSource: projectConfig.source }
+        : {};
 
+      if (data.found && data.project) {
         return {
           content: [{
             type: "text" as const,
             text: JSON.stringify({
-              success: true,
-              previewUrl: result.previewUrl,
-              sandboxUrl: result.sandboxUrl,
-              sandboxId: result.sandboxId,
-              inflightUrl: result.inflightUrl,
-              versionId: result.versionId,
-              projectId: result.projectId,
-              cloneMode: true,
-              diffSummary: result.diffSummary,
-              ...(resolvedWorkspaceName && { workspace: resolvedWorkspaceName }),
+              found: true,
+              project: data.project,
+              ...configuredProject,
+              message: `This repository has been shared before. Project "${data.project.name}" has ${data.project.versionCount} version(s). ` +
+                `To add a new version (V${data.project.versionCount + 1}), use existingProjectId="${data.project.id}" when calling share. ` +
+                (config.projectId
+                  ? `${projectConfig.source} sets projectId="${config.projectId}", so share adds a version to that project by default.`
+                  : `Otherwise, a new project will be created.`),
             }, null, 2),
           }],
         };
+      }
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            found: false,
+            ...configuredProject,
+            message: config.projectId
+              ? `No project found for this repository's remote, but ${projectConfig.source} sets projectId="${config.projectId}", so share adds a version to that project by default.`
+              : "No existing project found for this repository. A new project will be created.",
+          }),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Local MCP] check_existing_versions failed: ${message}`);
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify({ found: false, error: message }) }],
+      };
+    }
+  })
+);
+
+/**
+ * Ask the Share API whether it can clone the repository directly
+ * (only the git URL and workspace are sent). Returns null if the check failed.
+ */
+async function checkCloneAvailability(
+  apiKey: string,
+  gitUrl: string,
+  workspaceId: string,
+  signal?: AbortSignal
+): Promise<{ cloneAvailable: boolean; workspaceSlug?: string } | null> {
+  const response = await shareApiFetch(`${SHARE_API_URL}/share/check-clone`, apiKey, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ gitUrl, workspaceId }),
+    signal,
+  });
+  if (!response.ok) {
+    return null;
+  }
+  return await response.json() as { cloneAvailable: boolean; workspaceSlug?: string };
+}
+
+/**
+ * Base version for an incremental upload: the server reuses its files
+ * except the ones listed as deleted, and the request only carries changes
+ */
+interface IncrementalUpload {
+  baseVersionId: string;
+  deletedFiles: string[];
+}
+
+/**
+ * Manifest of the latest version of a project, used as the base for an
+ * incremental upload. Prefers the manifest the Share API reports and falls
+ * back to the one saved when this machine last shared the project.
+ */
+async function getBaseManifest(
+  apiKey: string,
+  projectId: string,
+  signal?: AbortSignal
+): Promise<{ versionId: string; files: FileManifest; source: "server" | "local" } | null> {
+  try {
+    const response = await shareApiFetch(
+      `${SHARE_API_URL}/share/projects/${encodeURIComponent(projectId)}/manifest`,
+      apiKey,
+      { signal }
+    );
+    if (response.ok) {
+      const data = await response.json() as { versionId?: string; files?: FileManifest };
+      if (data.versionId && data.files) {
+        return { versionId: data.versionId, files: data.files, source: "server" };
+      }
+    }
+  } catch (error) {
+    if (error instanceof ShareApiAuthError || signal?.aborted) {
+      throw error;
+    }
+  }
+
+  const local = loadLocalManifest(projectId);
+  return local ? { versionId: local.versionId, files: local.files, source: "local" } : null;
+}
+
+/**
+ * Tool result for an invalid inflight.config.json (or package.json "inflight" key)
+ */
+function projectConfigErrorResult(error: ProjectConfigError) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        error: error.message,
+        file: error.source,
+        ...(error.keyPath && { key: error.keyPath }),
+        nextStep: `Fix ${error.keyPath ? `"${error.keyPath}" in ` : ""}${error.source} and try again.`,
+      }, null, 2),
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * Tool result for files too large to upload even when split across chunks
+ */
+function oversizedFilesResult(oversized: Array<{ path: string; bytes: number }>) {
+  const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        error: `${oversized.length} file(s) are larger than the ${toMB(MAX_FILE_SIZE)} MB upload limit. Nothing was uploaded.`,
+        files: oversized.map((file) => `${file.path} (${toMB(file.bytes)} MB)`),
+        nextStep: "Add these files to .inflightignore (or \"exclude\" in inflight.config.json) and share again.",
+      }, null, 2),
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * Tool result for a share blocked by the secret scanner
+ */
+function secretsBlockedResult(findings: SecretFinding[]) {
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        blocked: true,
+        message: `Found ${findings.length} possible secret(s). Nothing was uploaded.`,
+        findings: formatFindings(findings).split("\n"),
+        nextStep: 'Remove the secrets, or call share again with secrets: "redact" to replace them with [REDACTED] (files that are secrets by name, like id_rsa, are left out), or secrets: "override" to upload as-is.',
+      }, null, 2),
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * Where the base branch came from: the share argument, inflight.config.json,
+ * or how getGitInfo detected it
+ */
+function baseBranchSource(
+  argument: string | undefined,
+  configured: string | undefined,
+  gitInfo: GitInfo
+): "argument" | "config" | BaseBranchSource | undefined {
+  if (argument) return "argument";
+  if (configured) return "config";
+  return gitInfo.baseBranchSource;
+}
+
+/**
+ * The range a share asked for, or null to share the working directory
+ */
+function shareRangeRequest(args: ShareRangeRequest): ShareRangeRequest | null {
+  const { fromRef, toRef, commit, pullRequest, baseBranch } = args;
+  if (fromRef === undefined && toRef === undefined && commit === undefined && pullRequest === undefined) {
+    return null;
+  }
+  return { fromRef, toRef, commit, pullRequest, baseBranch };
+}
+
+/**
+ * Git info for a share: the checked-out branch against its base, or the
+ * requested range. Throws GitRefError if the range can't be resolved.
+ */
+async function getShareGitInfo(
+  dir: string,
+  args: ShareRangeRequest,
+  config: LoadedProjectConfig["config"]
+): Promise<{ gitInfo: GitInfo; range: ShareRange | null }> {
+  const request = shareRangeRequest({ ...args, baseBranch: args.baseBranch || config.baseBranch });
+  if (!request) {
+    return { gitInfo: await getGitInfo(dir, args.baseBranch || config.baseBranch), range: null };
+  }
+  if (!(await isGitRepo(dir))) {
+    return { gitInfo: { isGitRepo: false }, range: null };
+  }
+  const range = await resolveShareRange(dir, request);
+  return { gitInfo: await getRangeGitInfo(dir, range), range };
+}
+
+/**
+ * readShareFiles for a share: from the working directory, or for a range
+ * from a temporary worktree of its last commit (removed afterwards)
+ */
+async function readShareSource(
+  dir: string,
+  range: ShareRange | null,
+  options: { useStaticAnalysis?: boolean; baseBranch?: string; report?: ReadReport },
+  onProgress: (progress: number, message: string) => Promise<void>
+): Promise<{ files: FileMap; usedStaticAnalysis: boolean }> {
+  if (!range) {
+    return await readShareFiles(dir, options, onProgress);
+  }
+  await onProgress(10, `Checking out ${range.description}...`);
+  let worktree: Awaited<ReturnType<typeof addTemporaryWorktree>>;
+  try {
+    worktree = await addTemporaryWorktree(dir, range.toSha);
+  } catch (error) {
+    throw new GitRefError(`Couldn't check out ${range.description}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    // Static analysis diffs the worktree's HEAD against the start of the range
+    return await readShareFiles(worktree.path, { ...options, baseBranch: range.fromSha }, onProgress);
+  } finally {
+    await worktree.remove();
+  }
+}
+
+function gitRefErrorResult(error: GitRefError) {
+  return {
+    content: [{ type: "text" as const, text: error.message }],
+    isError: true,
+  };
+}
+
+/**
+ * Build the upload manifest for a share without uploading anything:
+ * every file and its size, exclusions and the rule behind each, binary
+ * detections, the upload mode that would be used, and the diff.
+ * Clone availability is only checked when already signed in (no login prompt),
+ * and that check sends just the git URL and workspace ID.
+ */
+async function previewShare(
+  dir: string,
+  args: ShareRangeRequest & { workspaceId?: string; existingProjectId?: string; useStaticAnalysis?: boolean },
+  projectConfig: LoadedProjectConfig
+) {
+  const { config } = projectConfig;
+  let gitInfo: GitInfo;
+  let range: ShareRange | null;
+  try {
+    ({ gitInfo, range } = await getShareGitInfo(dir, args, config));
+  } catch (error) {
+    if (error instanceof GitRefError) {
+      return gitRefErrorResult(error);
+    }
+    throw error;
+  }
+  if (!gitInfo.isGitRepo) {
+    return {
+      content: [{ type: "text" as const, text: "This folder isn't a git repo — make sure you're in the right project directory." }],
+      isError: true,
+    };
+  }
+
+  // Clone mode: same conditions as a real share
+  const authData = getAuthData();
+  const workspaceId = args.workspaceId || config.workspaceId || authData?.defaultWorkspaceId;
+  let cloneMode: { wouldUse: boolean; reason: string };
+  if (range) {
+    cloneMode = { wouldUse: false, reason: `${range.description} is uploaded from a temporary checkout, not cloned` };
+  } else if (!gitInfo.gitUrl) {
+    cloneMode = { wouldUse: false, reason: "No git remote configured" };
+  } else if (!gitInfo.branchExistsOnRemote) {
+    cloneMode = { wouldUse: false, reason: `Branch "${gitInfo.currentBranch}" hasn't been pushed to the remote` };
+  } else if (!authData || !workspaceId) {
+    cloneMode = { wouldUse: false, reason: "Not signed in or no workspace selected, so clone availability wasn't checked" };
+  } else {
+    try {
+      const checkResult = await checkCloneAvailability(authData.apiKey, gitInfo.gitUrl, workspaceId);
+      cloneMode = checkResult?.cloneAvailable
+        ? { wouldUse: true, reason: "Inflight can clone this repository directly; files are only uploaded if cloning fails" }
+        : { wouldUse: false, reason: "Inflight can't clone this repository (GitHub App not installed or no access)" };
+    } catch (error) {
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
+      cloneMode = { wouldUse: false, reason: "Clone availability check failed" };
+    }
+  }
+
+  const report = createReadReport();
+  let readResult: Awaited<ReturnType<typeof readShareSource>>;
+  try {
+    readResult = await readShareSource(
+      dir,
+      range,
+      { useStaticAnalysis: args.useStaticAnalysis ?? config.useStaticAnalysis, baseBranch: gitInfo.baseBranch, report },
+      async () => {}
+    );
+  } catch (error) {
+    if (error instanceof GitRefError) {
+      return gitRefErrorResult(error);
+    }
+    throw error;
+  }
+  const { usedStaticAnalysis } = readResult;
+  const files = applyProjectFileFilters(readResult.files, projectConfig, report);
+
+  const secretFindings = [
+    ...scanDiffForSecrets(gitInfo.diff || ""),
+    ...scanFilesForSecrets(files),
+  ];
+
+  const manifest = Object.entries(files)
+    .map(([filePath, file]) => ({
+      path: filePath,
+      bytes: getFileSize(file),
+      encoding: isFileContent(file) ? file.encoding : "utf-8",
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  // Incremental upload against the project's latest version, as share would do it
+  const existingProjectId = args.existingProjectId || config.projectId;
+  let uploadFiles = files;
+  let incremental: Record<string, unknown> | null = null;
+  if (existingProjectId && !usedStaticAnalysis) {
+    let base: Awaited<ReturnType<typeof getBaseManifest>> = null;
+    if (authData) {
+      try {
+        base = await getBaseManifest(authData.apiKey, existingProjectId);
       } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        await log(`Clone share failed: ${message}`, "warning");
-        await log(`Falling back to file upload...`);
-        // Fall through to standard file upload below
+        if (error instanceof ShareApiAuthError) {
+          return authErrorResult(error);
+        }
+      }
+    } else {
+      const local = loadLocalManifest(existingProjectId);
+      base = local && { versionId: local.versionId, files: local.files, source: "local" };
+    }
+    if (base) {
+      const delta = diffManifest(base.files, files);
+      uploadFiles = delta.changed;
+      incremental = {
+        baseVersionId: base.versionId,
+        manifestSource: base.source,
+        added: delta.added,
+        modified: delta.modified,
+        deleted: delta.deleted,
+        unchanged: delta.unchanged,
+      };
+    }
+  }
+
+  const totalBytes = calculateChunkTotalSize(uploadFiles);
+  const oversizedFiles = findOversizedFiles(uploadFiles);
+  const useChunkedUpload = needsChunkedUpload(uploadFiles, Buffer.byteLength(JSON.stringify(gitInfo.diff || "")));
+  const chunkStats = useChunkedUpload ? getChunkStats(chunkFiles(uploadFiles)) : null;
+
+  return {
+    content: [{
+      type: "text" as const,
+      text: JSON.stringify({
+        dryRun: true,
+        message: "Nothing was uploaded. This is what share would send.",
+        directory: dir,
+        mode: cloneMode.wouldUse ? "clone" : useChunkedUpload ? "chunked" : "standard",
+        cloneMode,
+        chunkedUpload: chunkStats
+          ? { totalChunks: chunkStats.totalChunks, chunkSizes: chunkStats.chunkSizes }
+          : null,
+        staticAnalysis: usedStaticAnalysis,
+        workspaceId: workspaceId || null,
+        existingProjectId: existingProjectId || null,
+        incremental,
+        projectConfig: projectConfig.source ? { source: projectConfig.source, ...config } : null,
+        summary: {
+          fileCount: manifest.length,
+          uploadedFileCount: Object.keys(uploadFiles).length,
+          totalBytes,
+          binaryFiles: report.binary.length,
+          excludedPaths: report.excluded.length,
+          secretFindings: secretFindings.length,
+        },
+        secretFindings: secretFindings.length > 0 ? formatFindings(secretFindings).split("\n") : [],
+        // Files share would refuse to upload (over MAX_FILE_SIZE)
+        oversizedFiles,
+        files: manifest,
+        excluded: report.excluded,
+        binaryFiles: report.binary,
+        git: {
+          currentBranch: gitInfo.currentBranch || null,
+          baseBranch: gitInfo.baseBranch || null,
+          ...(range ? { range } : { baseBranchSource: baseBranchSource(args.baseBranch, config.baseBranch, gitInfo) }),
+          gitUrl: gitInfo.gitUrl || null,
+          diffStat: gitInfo.diffStat || "",
+          diff: gitInfo.diff || "",
+        },
+      }, null, 2),
+    }],
+  };
+}
+
+/**
+ * Read the files a share would upload: all project files, or only the files
+ * static dependency analysis finds relevant (falling back to all files).
+ */
+async function readShareFiles(
+  dir: string,
+  options: { useStaticAnalysis?: boolean; baseBranch?: string; report?: ReadReport },
+  onProgress: (progress: number, message: string) => Promise<void>
+): Promise<{ files: FileMap; usedStaticAnalysis: boolean }> {
+  if (!options.useStaticAnalysis) {
+    // Default: Read all project files
+    await onProgress(10, "Reading project files...");
+    return { files: readProjectFiles(dir, true, options.report), usedStaticAnalysis: false };
+  }
+
+  // Experimental: Use static dependency analysis to upload only relevant files
+  await onProgress(10, "Analyzing dependencies...");
+  try {
+    const analysisResult = await analyzeProjectDependencies(dir, undefined, options.baseBranch);
+    const localFiles = analysisResult.dependencies.localFiles;
+
+    await log(`  Analysis completed in ${analysisResult.metadata.analysisTimeMs}ms`);
+    await log(`  Changed files: ${analysisResult.changedFiles.length}`);
+    await log(`  UI-relevant entry points: ${analysisResult.metadata.entryPoints.length}`);
+    await log(`  Local dependencies: ${localFiles.length}`);
+    await log(`  NPM packages: ${analysisResult.dependencies.npmPackages.length}`);
+
+    if (localFiles.length > 0) {
+      await onProgress(11, `Reading ${localFiles.length} analyzed files...`);
+      const files = readSpecificFiles(dir, localFiles, true, true, options.report);
+      await log(`  Using static analysis: ${Object.keys(files).length} files to upload`);
+      return { files, usedStaticAnalysis: true };
+    }
+
+    await log(`  No UI-relevant dependencies found, falling back to full upload`);
+  } catch (analysisError) {
+    const errorMsg = analysisError instanceof Error ? analysisError.message : String(analysisError);
+    await log(`  Static analysis failed: ${errorMsg}`, "warning");
+    await log(`  Falling back to full project upload`);
+  }
+
+  await onProgress(11, "Reading all project files...");
+  return { files: readProjectFiles(dir, true, options.report), usedStaticAnalysis: false };
+}
+
+// Tool: Share
+server.tool(
+  "share",
+  "Share your project to Inflight for review. Uploads your code, builds a live prototype, and creates a shareable link.",
+  {
+    directory: z.string().optional().describe("Project directory (defaults to cwd)"),
+    workspaceId: z.string().optional().describe("Inflight workspace ID (default: workspaceId from inflight.config.json, else your default workspace)"),
+    existingProjectId: z.string().optional().describe("Add version to existing project (default: projectId from inflight.config.json)"),
+    useStaticAnalysis: z.boolean().optional().describe("Use static dependency analysis to upload only relevant files (experimental, default: useStaticAnalysis from inflight.config.json, else false)"),
+    baseBranch: z.string().regex(/^[^-]/, "Branch names can't start with '-'").optional().describe("Branch to diff against (default: baseBranch from inflight.config.json, else detected from the branch's upstream, origin/HEAD, init.defaultBranch, or main/master)"),
+    fromRef: z.string().regex(/^[^-]/, "Refs can't start with '-'").optional().describe("Share a range of commits starting here (branch, tag or SHA; default: where toRef forked from the base branch). Files come from toRef, not the working directory"),
+    toRef: z.string().regex(/^[^-]/, "Refs can't start with '-'").optional().describe("End of the range to share (default: HEAD)"),
+    commit: z.string().regex(/^[^-]/, "Refs can't start with '-'").optional().describe("Share a single commit, diffed against its parent. Files come from that commit, not the working directory"),
+    pullRequest: z.number().int().positive().optional().describe("Share a pull request by number, fetched from origin's refs/pull/<n>/head and diffed against its base branch"),
+    dryRun: z.boolean().optional().describe("Don't upload anything; return the upload manifest (files and sizes, exclusions, binary files, upload mode and diff) for review"),
+    secrets: z.enum(["block", "redact", "override"]).optional().describe("What to do when files or the diff contain likely secrets: 'block' stops the share and lists them, 'redact' replaces them with [REDACTED], 'override' uploads as-is (default: block)"),
+  },
+  withProfileContext(async (args, extra) => {
+    const dir = args.directory || process.cwd();
+
+    // Defaults checked in with the project (tool arguments take precedence)
+    let projectConfig: LoadedProjectConfig;
+    try {
+      projectConfig = loadProjectConfig(dir);
+    } catch (error) {
+      if (error instanceof ProjectConfigError) {
+        return projectConfigErrorResult(error);
+      }
+      throw error;
+    }
+
+    if (args.dryRun) {
+      if (!existsSync(dir)) {
+        return {
+          content: [{ type: "text" as const, text: `Couldn't find that directory: ${dir}` }],
+          isError: true,
+        };
+      }
+      return await previewShare(dir, args, projectConfig);
+    }
+
+    // Get progressToken from _meta - required for progress notifications to show in Claude Code
+    return await runShare(args, projectConfig, {
+      signal: extra.signal,
+      progressToken: (extra as any)._meta?.progressToken,
+      sendNotification: extra.sendNotification,
+    });
+  })
+);
+
+/**
+ * What to share: the share tool's arguments other than dryRun
+ */
+interface ShareOptions {
+  directory?: string;
+  workspaceId?: string;
+  existingProjectId?: string;
+  /** Branch to diff against instead of the configured or detected one */
+  baseBranch?: string;
+  /** Share a range, commit or pull request instead of the working directory */
+  fromRef?: string;
+  toRef?: string;
+  commit?: string;
+  pullRequest?: number;
+  useStaticAnalysis?: boolean;
+  secrets?: "block" | "redact" | "override";
+}
+
+/**
+ * How a share reports back to whoever started it
+ */
+interface ShareRunContext {
+  signal: AbortSignal;
+  /** Progress notifications are only sent with a progress token */
+  progressToken?: string | number;
+  sendNotification?: (notification: ServerNotification) => Promise<void>;
+  /** Open the result in the browser (default: true) */
+  openBrowser?: boolean;
+  /** Sign in (browser or device code) when there are no usable credentials (default: true) */
+  interactiveAuth?: boolean;
+  /** Called with the result once a share succeeds */
+  onShared?: (result: ShareResult) => void;
+}
+
+/**
+ * Share a project end to end: git info, auth, upload (clone, chunked or standard)
+ * and the server-side build. Used by the share tool and by watch mode.
+ */
+async function runShare(args: ShareOptions, projectConfig: LoadedProjectConfig, run: ShareRunContext): Promise<ToolResult> {
+  const dir = args.directory || process.cwd();
+  const { config } = projectConfig;
+  const existingProjectId = args.existingProjectId || config.projectId;
+  const progressToken = run.progressToken;
+
+  // Reset friendly message deduplication state for this share operation
+  resetMessageState();
+
+  // Helper to send progress notifications to MCP client
+  // Logs the raw message for debugging, but shows a friendly version to the user
+  // (verbatim messages, like sign-in instructions, are shown as-is)
+  const sendProgress = async (progress: number, total: number, message?: string, verbatim = false) => {
+    if (message) {
+      // Always log the raw technical message to stderr for debugging
+      await log(`[${progress}%] ${message}`);
+    }
+
+    if (message && progressToken && run.sendNotification) {
+      // Map to a friendly user-facing message (with deduplication)
+      const friendly = verbatim ? message : toFriendlyMessage(progress, message);
+      if (friendly) {
+        try {
+          await run.sendNotification({
+            method: "notifications/progress",
+            params: {
+              progressToken,
+              progress,
+              total,
+              message: friendly,
+            },
+          });
+        } catch {
+          // Ignore errors sending progress
+        }
       }
     }
+  };
+
+  // Escape in the client aborts the signal: stop at the next step, abort outstanding
+  // requests and SSE streams, and tear down whatever the server already started
+  const signal = run.signal;
+  const started: { sessionId?: string; sandboxId?: string } = {};
+
+  // Record the share as soon as the server reports its IDs, so it can be reattached
+  // to with share_status if this call never sees the result. Shares from this directory
+  // that were interrupted before are reported in the result.
+  const runningShare: RunningShare = {
+    id: randomUUID(),
+    directory: resolve(dir),
+    apiUrl: SHARE_API_URL,
+    startedAt: new Date().toISOString(),
+  };
+  const interruptedShares = listRunningShares(SHARE_API_URL)
+    .filter((share) => share.directory === runningShare.directory)
+    .map(({ sandboxId, sessionId, branch, startedAt }) => ({ sandboxId, sessionId, branch, startedAt }));
+  const interrupted = interruptedShares.length > 0 ? {
+    interruptedShares,
+    interruptedSharesTip: `${interruptedShares.length === 1 ? "A previous share" : `${interruptedShares.length} previous shares`} from this directory lost connection before finishing. Call share_status with the sandboxId to get the result.`,
+  } : undefined;
+  const callContext: ShareCallContext = {
+    signal,
+    started,
+    onStarted: (ids) => saveRunningShare({ ...runningShare, ...ids }),
+  };
+  const forgetRunningShare = () => clearRunningShare(runningShare.id);
+
+  let cancelApiKey: string | undefined;
+  const cancelledResult = async () => {
+    await log("Share cancelled", "warning");
+    forgetRunningShare();
+    const serverStarted = Boolean(started.sessionId || started.sandboxId);
+    let serverCleanup: "requested" | "failed" | undefined;
+    if (serverStarted && cancelApiKey) {
+      serverCleanup = await cancelShareOnServer(cancelApiKey, started) ? "requested" : "failed";
+      clearUploadSession(dir);
+    }
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          cancelled: true,
+          message: "Share cancelled. Nothing was published.",
+          ...(serverCleanup && { serverCleanup, ...started }),
+        }, null, 2),
+      }],
+      isError: true,
+    };
+  };
+
+  const shareStartedAt = Date.now();
+  await sendProgress(0, 100, "Preparing to share...");
+  if (interrupted) {
+    await log(`Found ${interruptedShares.length} interrupted share(s) from this directory; share_status can reattach to them`, "warning");
+  }
+
+  if (!existsSync(dir)) {
+    return {
+      content: [{ type: "text" as const, text: `Couldn't find that directory: ${dir}` }],
+      isError: true,
+    };
+  }
+
+  // Step 1: Check Share API is running
+  await sendProgress(2, 100, "Connecting to Inflight...");
+  const csbHealthy = await shareApiHealthCheck();
+  if (!csbHealthy) {
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Couldn't reach Inflight servers. Check your internet connection and try again.`,
+      }],
+      isError: true,
+    };
+  }
+
+  if (signal.aborted) return await cancelledResult();
+
+  if (projectConfig.source) {
+    await log(`Using project config from ${projectConfig.source}`);
+  }
+
+  // Step 2: Get git info
+  await sendProgress(5, 100, "Reading your changes...");
+  let gitInfo: GitInfo;
+  let range: ShareRange | null;
+  try {
+    ({ gitInfo, range } = await getShareGitInfo(dir, args, config));
+  } catch (error) {
+    if (error instanceof GitRefError) {
+      return gitRefErrorResult(error);
+    }
+    throw error;
+  }
+  if (!gitInfo.isGitRepo) {
+    return {
+      content: [{ type: "text" as const, text: "This folder isn't a git repo — make sure you're in the right project directory." }],
+      isError: true,
+    };
+  }
+  // What the diff was taken against, reported with the result
+  const diffBase = range ? { range } : {
+    baseBranch: gitInfo.baseBranch,
+    baseBranchSource: baseBranchSource(args.baseBranch, config.baseBranch, gitInfo),
+  };
+  if (range) {
+    await log(`Sharing ${range.description} (${range.fromSha.slice(0, 7)}..${range.toSha.slice(0, 7)})`);
+  } else {
+    await log(`Diffing against ${gitInfo.baseBranch} (${diffBase.baseBranchSource})`);
+  }
+
+  // Step 2b: Scan the diff for secrets before anything leaves the machine
+  const secretHandling = args.secrets || "block";
+  const diffFindings = scanDiffForSecrets(gitInfo.diff || "");
+  if (diffFindings.length > 0) {
+    if (secretHandling === "block") {
+      return secretsBlockedResult(diffFindings);
+    } else if (secretHandling === "redact") {
+      gitInfo.diff = redactSecrets(gitInfo.diff || "");
+      await log(`  Redacted ${diffFindings.length} possible secret(s) from the diff`);
+    } else {
+      await log(`  Uploading diff with ${diffFindings.length} possible secret(s) (override)`, "warning");
+    }
+  }
+
+  const isFullShare = !gitInfo.diff;
+  if (isFullShare) {
+    await log("No branch diff found — sharing the full project instead.");
+  }
+
+  await log(`Branch: ${gitInfo.currentBranch}`);
+  runningShare.branch = gitInfo.currentBranch || undefined;
+
+  // Step 3: Check auth (before file reading to enable clone check)
+  // INFLIGHT_API_KEY skips the browser flow but must be valid up front
+  const envValidation = await validateEnvCredentials();
+  if (envValidation && !envValidation.valid) {
+    return {
+      content: [{ type: "text" as const, text: `INFLIGHT_API_KEY is set but couldn't be used: ${envValidation.error}` }],
+      isError: true,
+    };
+  }
+
+  let authData = getAuthData();
+
+  // Saved credentials may have expired or been revoked since login;
+  // catch that now and sign in again instead of failing mid-upload
+  if (authData && getCredentialSource() === "file") {
+    const validation = await validateApiKey(authData.apiKey);
+    if (!validation.valid && validation.rejected) {
+      await log("Saved Inflight credentials were rejected (expired or revoked) — signing in again...", "warning");
+      handleRejectedCredentials(authData.apiKey);
+      authData = null;
+    }
+  }
+
+  if (!authData && run.interactiveAuth === false) {
+    return {
+      content: [{ type: "text" as const, text: "Not authenticated. Please run inflight_login first." }],
+      isError: true,
+    };
+  }
+
+  if (!authData) {
+    await sendProgress(8, 100, "Authenticating with InFlight...");
+    try {
+      authData = await authenticate((msg) => { void sendProgress(8, 100, msg, true); });
+    } catch (authError) {
+      const authMessage = authError instanceof Error ? authError.message : String(authError);
+      return {
+        content: [{ type: "text" as const, text: `Couldn't sign in to Inflight. Try running /inflight login first.\n\n${authMessage}` }],
+        isError: true,
+      };
+    }
+  }
+
+  cancelApiKey = authData.apiKey;
+  if (signal.aborted) return await cancelledResult();
+
+  // Step 3b: Resolve workspace if not provided
+  // Priority: explicit arg > project config > saved default > API lookup
+  let resolvedWorkspaceId: string | undefined = args.workspaceId || config.workspaceId || authData.defaultWorkspaceId;
+  let resolvedWorkspaceName: string | undefined;
+  if (!resolvedWorkspaceId) {
+    try {
+      await sendProgress(9, 100, "Looking up your workspaces...");
+      const wsResponse = await shareApiFetch(`${SHARE_API_URL}/share/workspaces`, authData.apiKey, { signal });
+      if (wsResponse.ok) {
+        const wsResult = await wsResponse.json() as {
+          workspaces: Array<{ id: string; name: string; slug: string; avatarUrl: string | null }>;
+        };
+        if (wsResult.workspaces.length === 0) {
+          return {
+            content: [{ type: "text" as const, text: "Error: You don't belong to any InFlight workspaces. Please create a workspace first at https://www.inflight.co" }],
+            isError: true,
+          };
+        } else {
+          // Auto-select first workspace (user can change with set_workspace)
+          resolvedWorkspaceId = wsResult.workspaces[0].id;
+          resolvedWorkspaceName = wsResult.workspaces[0].name;
+          // Save as default so we don't look up again next time
+          authData.defaultWorkspaceId = resolvedWorkspaceId;
+          saveAuthData(authData);
+          await log(`  Auto-selected workspace: ${resolvedWorkspaceName} (${wsResult.workspaces.length} workspace${wsResult.workspaces.length > 1 ? 's' : ''} available)`);
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) return await cancelledResult();
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
+      await log("  Workspace lookup failed, proceeding without workspace selection");
+    }
+  }
+
+  // Every share that reaches the server is recorded in the local history
+  const recordHistory = (
+    status: ShareHistoryEntry["status"],
+    mode: ShareMode,
+    details: Partial<ShareHistoryEntry> & { result?: ShareResult } = {}
+  ) => {
+    const { result, ...rest } = details;
+    appendShareHistory({
+      timestamp: new Date().toISOString(),
+      status,
+      directory: resolve(dir),
+      repo: gitInfo.gitUrl,
+      branch: gitInfo.currentBranch,
+      commit: gitInfo.commitSha,
+      workspaceId: resolvedWorkspaceId,
+      workspaceName: resolvedWorkspaceName,
+      mode,
+      durationMs: Date.now() - shareStartedAt,
+      ...(result && {
+        projectId: result.projectId,
+        versionId: result.versionId,
+        sandboxId: result.sandboxId,
+        inflightUrl: result.inflightUrl,
+        previewUrl: result.previewUrl,
+      }),
+      ...rest,
+    });
+  };
+
+  // Step 3c: Check if git clone mode is available (skip file upload if so)
+  let useGitClone = false;
+  let githubAppTip: string | null = null;
+  let branchNotPushedTip: string | null = null;
+  // Ranges are read from a temporary checkout; the server would clone a branch
+  if (gitInfo.gitUrl && resolvedWorkspaceId && !range) {
+    // First check: is the branch pushed to the remote?
+    if (!gitInfo.branchExistsOnRemote) {
+      await log(`  Branch "${gitInfo.currentBranch}" not found on remote — clone mode requires pushed branches`);
+      branchNotPushedTip = `Your branch "${gitInfo.currentBranch}" hasn't been pushed to the remote yet. Push it with \`git push -u origin ${gitInfo.currentBranch}\` to enable faster sharing via git clone.`;
+    } else {
+      try {
+        await sendProgress(9, 100, "Checking repository access...");
+        const checkResult = await checkCloneAvailability(authData.apiKey, gitInfo.gitUrl, resolvedWorkspaceId, signal);
+        if (checkResult) {
+          useGitClone = checkResult.cloneAvailable === true;
+          if (useGitClone) {
+            await log(`  Git clone available for ${gitInfo.gitUrl}`);
+          } else if (gitInfo.gitUrl.includes("github")) {
+            // GitHub repo detected but no app installed - prompt user to install
+            await log(`  GitHub repo detected but InFlight GitHub App not installed for this workspace`);
+            const installUrl = checkResult.workspaceSlug
+              ? `https://www.inflight.co/${checkResult.workspaceSlug}/settings/integrations`
+              : "https://www.inflight.co";
+            githubAppTip = `The InFlight GitHub App is not installed for this repository. Installing it will make sharing significantly faster by cloning your repo directly instead of uploading files. Would you like to install it? Go to: ${installUrl}`;
+          }
+        }
+      } catch (error) {
+        if (signal.aborted) return await cancelledResult();
+        if (error instanceof ShareApiAuthError) {
+          return authErrorResult(error);
+        }
+        await log(`  Clone check failed, falling back to file upload`);
+      }
+    }
+  }
+
+  if (useGitClone) {
+    // Clone-based share: skip file reading/upload entirely
+    await sendProgress(10, 100, "Git clone available, skipping file upload...");
+
+    try {
+      const result = await callCloneShareWithSSE(
+        {
+          gitDiff: {
+            diff: gitInfo.diff || '',
+            diffStat: gitInfo.diffStat || '',
+            baseBranch: gitInfo.baseBranch || 'main',
+            currentBranch: gitInfo.currentBranch || 'unknown',
+          },
+          gitUrl: gitInfo.gitUrl!,
+          currentBranch: gitInfo.currentBranch || 'unknown',
+          workspaceId: resolvedWorkspaceId!,
+          existingProjectId,
+          buildHints: config.build,
+        },
+        authData.apiKey,
+        // Remap server percentages (0-100) to our range (10-100)
+        // so progress never jumps backwards after local steps reach 10%
+        async (percentage: number, step: string) => {
+          const remapped = 10 + Math.floor((percentage / 100) * 90);
+          await sendProgress(remapped, 100, step);
+        },
+        async (message: string) => {
+          forgetRunningShare();
+          await log(`Server error: ${message}`, "error");
+        },
+        callContext
+      );
+
+      await sendProgress(100, 100, "Share complete!");
+      forgetRunningShare();
+      recordHistory("success", "clone", { result });
+      run.onShared?.(result);
+      await log("========== SUCCESS (clone mode) ==========");
+      await log(`Preview URL: ${result.previewUrl}`);
+      await log(`InFlight URL: ${result.inflightUrl}`);
+
+      if (run.openBrowser !== false) {
+        openInBrowser(result.inflightUrl);
+        await log("Opening InFlight in browser...");
+      }
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            success: true,
+            previewUrl: result.previewUrl,
+            sandboxUrl: result.sandboxUrl,
+            sandboxId: result.sandboxId,
+            inflightUrl: result.inflightUrl,
+            versionId: result.versionId,
+            projectId: result.projectId,
+            cloneMode: true,
+            diffSummary: result.diffSummary,
+            ...diffBase,
+            ...(resolvedWorkspaceName && { workspace: resolvedWorkspaceName }),
+            ...interrupted,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (signal.aborted) return await cancelledResult();
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      await log(`Clone share failed: ${message}`, "warning");
+      await log(`Falling back to file upload...`);
+      // Fall through to standard file upload below
+    }
+  }
+
+  // Step 4: Read project files (skipped if clone succeeded above)
+  let readResult: Awaited<ReturnType<typeof readShareSource>>;
+  try {
+    readResult = await readShareSource(
+      dir,
+      range,
+      { useStaticAnalysis: args.useStaticAnalysis ?? config.useStaticAnalysis, baseBranch: gitInfo.baseBranch },
+      (progress, message) => sendProgress(progress, 100, message)
+    );
+  } catch (error) {
+    if (error instanceof GitRefError) {
+      return gitRefErrorResult(error);
+    }
+    throw error;
+  }
+  const { usedStaticAnalysis } = readResult;
+  let files = applyProjectFileFilters(readResult.files, projectConfig);
+  if (signal.aborted) return await cancelledResult();
+
+  // Step 4b: Scan files for secrets
+  const fileFindings = scanFilesForSecrets(files);
+  if (fileFindings.length > 0) {
+    if (secretHandling === "block") {
+      return secretsBlockedResult(fileFindings);
+    } else if (secretHandling === "redact") {
+      const redacted = redactFiles(files);
+      files = redacted.files;
+      await log(`  Redacted ${fileFindings.length} possible secret(s)${redacted.removed.length > 0 ? `, left out ${redacted.removed.join(", ")}` : ""}`);
+    } else {
+      await log(`  Uploading ${fileFindings.length} possible secret(s) (override)`, "warning");
+    }
+  }
+
+  const fileCount = Object.keys(files).length;
+  await log(`  ${usedStaticAnalysis ? "Analyzed" : "Found"} ${fileCount} files`);
+  const uploadMode = (chunked: boolean): ShareMode => usedStaticAnalysis ? "static" : chunked ? "chunked" : "standard";
+
+  // Step 4c: New versions of a project only upload files changed since the last one.
+  // Static analysis reads a subset of files, so its shares always upload in full.
+  const manifest = buildManifest(files);
+  let uploadFiles = files;
+  let incremental: IncrementalUpload | undefined;
+  let incrementalSummary: Record<string, unknown> | undefined;
+  if (existingProjectId && !usedStaticAnalysis) {
+    let base: Awaited<ReturnType<typeof getBaseManifest>>;
+    try {
+      base = await getBaseManifest(authData.apiKey, existingProjectId, signal);
+    } catch (error) {
+      if (signal.aborted) return await cancelledResult();
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
+      throw error;
+    }
+    if (base) {
+      const delta = diffManifest(base.files, files, manifest);
+      uploadFiles = delta.changed;
+      incremental = { baseVersionId: base.versionId, deletedFiles: delta.deleted };
+      incrementalSummary = {
+        baseVersionId: base.versionId,
+        manifestSource: base.source,
+        added: delta.added.length,
+        modified: delta.modified.length,
+        deleted: delta.deleted.length,
+        unchanged: delta.unchanged,
+      };
+      await log(`  Incremental upload against ${base.versionId} (${base.source} manifest): ${delta.added.length} added, ${delta.modified.length} modified, ${delta.deleted.length} deleted, ${delta.unchanged} unchanged`);
+    }
+  }
+
+  // Files too large to upload even in parts would fail server-side; stop before sending anything
+  const oversized = findOversizedFiles(uploadFiles);
+  if (oversized.length > 0) {
+    return oversizedFilesResult(oversized);
+  }
+
+  const totalSize = calculateChunkTotalSize(uploadFiles);
+  const sizeMB = (totalSize / (1024 * 1024)).toFixed(2);
+
+  // Remember what this version contains so the next one can be incremental
+  const rememberManifest = (result: ShareResult) => {
+    if (!usedStaticAnalysis && result.projectId && result.versionId) {
+      saveLocalManifest(result.projectId, result.versionId, manifest);
+    }
+    if (!usedStaticAnalysis && result.sandboxId) {
+      saveSandboxManifest(result.sandboxId, manifest);
+    }
+  };
+
+  // Step 5: Check if chunked upload is needed
+  // Sized by the serialized request body, including the diff sent alongside the files
+  const filesAsFileMap = uploadFiles as FileMap;
+  const useChunkedUpload = needsChunkedUpload(filesAsFileMap, Buffer.byteLength(JSON.stringify(gitInfo.diff || "")));
+
+  if (useChunkedUpload) {
+    await sendProgress(12, 100, "Uploading project...");
+
+    try {
+      const result = await callChunkedShare(
+        filesAsFileMap,
+        {
+          diff: gitInfo.diff || '',
+          diffStat: gitInfo.diffStat || '',
+          baseBranch: gitInfo.baseBranch || 'main',
+          currentBranch: gitInfo.currentBranch || 'unknown',
+        },
+        authData.apiKey,
+        resolvedWorkspaceId,
+        existingProjectId,
+        gitInfo.gitUrl,
+        config.build,
+        incremental,
+        dir,
+        async (percentage: number, step: string) => {
+          await sendProgress(percentage, 100, step);
+        },
+        async (message) => {
+          forgetRunningShare();
+          await log(`Error: ${message}`, "error");
+        },
+        callContext
+      );
+
+      await sendProgress(100, 100, "Done!");
+      forgetRunningShare();
+      rememberManifest(result);
+      recordHistory("success", uploadMode(true), { result, projectId: result.projectId || existingProjectId, fileCount });
+      run.onShared?.(result);
+
+      if (run.openBrowser !== false) {
+        openInBrowser(result.inflightUrl);
+      }
+
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            success: true,
+            previewUrl: result.previewUrl,
+            sandboxUrl: result.sandboxUrl,
+            sandboxId: result.sandboxId,
+            inflightUrl: result.inflightUrl,
+            versionId: result.versionId,
+            projectId: result.projectId,
+            fileCount,
+            chunkedUpload: true,
+            ...diffBase,
+            ...(incrementalSummary && { incremental: incrementalSummary }),
+            ...(resolvedWorkspaceName && { workspace: resolvedWorkspaceName }),
+            ...(githubAppTip && { githubAppTip }),
+            ...(branchNotPushedTip && { branchNotPushedTip }),
+            ...interrupted,
+          }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (signal.aborted) return await cancelledResult();
+      const message = error instanceof Error ? error.message : String(error);
+      recordHistory("failed", uploadMode(true), { projectId: existingProjectId, sandboxId: started.sandboxId, fileCount, error: message });
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Something went wrong while sharing: ${message}`,
+        }],
+        isError: true,
+      };
+    }
+  }
+
+  // Step 5b: Standard upload (< 3MB)
+  await sendProgress(12, 100, `Uploading ${sizeMB} MB to Inflight...`);
+
+  try {
+    const result = await callShareWithSSE(
+      {
+        files: uploadFiles,
+        gitDiff: {
+          diff: gitInfo.diff || '',
+          diffStat: gitInfo.diffStat || '',
+          baseBranch: gitInfo.baseBranch || 'main',
+          currentBranch: gitInfo.currentBranch || 'unknown',
+        },
+        userId: authData.userId,
+        workspaceId: resolvedWorkspaceId,
+        existingProjectId,
+        gitUrl: gitInfo.gitUrl,
+        buildHints: config.build,
+        ...incremental,
+      },
+      authData.apiKey,
+      // Progress callback - remap server percentages (0-100) to our range (12-100)
+      // so progress never jumps backwards after local steps reach 12%
+      async (percentage: number, step: string) => {
+        const remapped = 12 + Math.floor((percentage / 100) * 88);
+        await sendProgress(remapped, 100, step);
+      },
+      async (message) => {
+        forgetRunningShare();
+        await log(`Error: ${message}`, "error");
+      },
+      callContext
+    );
+
+    await sendProgress(100, 100, "Done!");
+    forgetRunningShare();
+    rememberManifest(result);
+    recordHistory("success", uploadMode(false), { result, projectId: result.projectId || existingProjectId, fileCount });
+    run.onShared?.(result);
+
+    if (run.openBrowser !== false) {
+      openInBrowser(result.inflightUrl);
+    }
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          previewUrl: result.previewUrl,
+          sandboxUrl: result.sandboxUrl,
+          ngrokUrl: result.ngrokUrl || null,
+          sandboxId: result.sandboxId,
+          inflightUrl: result.inflightUrl,
+          versionId: result.versionId,
+          projectId: result.projectId,
+          fileCount,
+          diffSummary: result.diffSummary,
+          ...diffBase,
+          ...(incrementalSummary && { incremental: incrementalSummary }),
+          ...(resolvedWorkspaceName && { workspace: resolvedWorkspaceName }),
+          ...(githubAppTip && { githubAppTip }),
+          ...(branchNotPushedTip && { branchNotPushedTip }),
+          ...interrupted,
+        }, null, 2),
+      }],
+    };
+
+  } catch (error) {
+    if (signal.aborted) return await cancelledResult();
+    const message = error instanceof Error ? error.message : String(error);
+    recordHistory("failed", uploadMode(false), { projectId: existingProjectId, sandboxId: started.sandboxId, fileCount, error: message });
+    if (error instanceof ShareApiAuthError) {
+      return authErrorResult(error);
+    }
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Something went wrong while sharing: ${message}`,
+      }],
+      isError: true,
+    };
+  }
+}
+
+// Tool: Reattach to a share whose progress stream was lost
+server.tool(
+  "share_status",
+  "Get the result of a share that was interrupted (Claude Code restarted or the connection dropped) while its prototype kept building. Reconnects to its progress until it finishes, or returns the final result if it already has.",
+  {
+    sandboxId: z.string().regex(/^(?!\.{1,2}$)/, "Invalid sandbox ID").optional().describe("Sandbox ID of the share (default: the most recent interrupted share from the directory)"),
+    directory: z.string().optional().describe("Project directory whose interrupted shares to look up (defaults to cwd)"),
+    wait: z.boolean().optional().describe("Follow the share's progress until it finishes (default: true); false returns its current status right away"),
+  },
+  withProfileContext(async (args, extra) => {
+    const authData = getAuthData();
+    if (!authData) {
+      return {
+        content: [{ type: "text" as const, text: "Not authenticated. Please run inflight_login first." }],
+        isError: true,
+      };
+    }
+
+    const directory = resolve(args.directory || process.cwd());
+    const runningShares = listRunningShares(SHARE_API_URL);
+    const record = args.sandboxId
+      ? runningShares.find((share) => share.sandboxId === args.sandboxId)
+      : runningShares.find((share) => share.directory === directory);
+
+    if (!args.sandboxId && !record) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ interruptedShares: [], message: `No interrupted shares from ${directory}.` }, null, 2),
+        }],
+      };
+    }
+
+    const sandboxId = args.sandboxId || record!.sandboxId;
+    if (!sandboxId) {
+      // Chunked uploads get a sandbox when they're finalized; the saved upload session resumes it
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            status: "upload_incomplete",
+            sessionId: record!.sessionId,
+            message: `The upload was interrupted before it finished. Run share again from ${record!.directory} to resume it.`,
+          }, null, 2),
+        }],
+      };
+    }
+
+    const forget = () => {
+      if (record) clearRunningShare(record.id);
+    };
+    const finishedResult = (result: ShareResult) => ({
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          success: true,
+          status: "complete",
+          previewUrl: result.previewUrl,
+          sandboxUrl: result.sandboxUrl,
+          sandboxId: result.sandboxId || sandboxId,
+          inflightUrl: result.inflightUrl,
+          versionId: result.versionId,
+          projectId: result.projectId,
+          diffSummary: result.diffSummary,
+        }, null, 2),
+      }],
+    });
+    const failedResult = (message: string) => ({
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({ status: "failed", sandboxId, message: `The share failed on Inflight: ${message}` }, null, 2),
+      }],
+      isError: true,
+    });
+
+    const progressToken = (extra as any)._meta?.progressToken;
+    const sendProgress = async (progress: number, step: string) => {
+      await log(`[${progress}%] ${step}`);
+      const friendly = toFriendlyMessage(progress, step);
+      if (friendly && progressToken && extra.sendNotification) {
+        try {
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, progress, total: 100, message: friendly },
+          });
+        } catch {
+          // Ignore errors sending progress
+        }
+      }
+    };
+
+    try {
+      const statusResponse = await shareApiFetch(`${SHARE_API_URL}/share/status/${encodeURIComponent(sandboxId)}`, authData.apiKey, {
+        signal: extra.signal,
+      });
+      if (statusResponse.status === 404) {
+        forget();
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Inflight has no share for sandbox ${sandboxId}. It may have expired; run share again to publish a new version.`,
+          }],
+          isError: true,
+        };
+      }
+      if (!statusResponse.ok) {
+        const errorText = await statusResponse.text();
+        throw new Error(`Status check failed (${statusResponse.status}): ${errorText || "Empty response"}`);
+      }
+
+      const status = await statusResponse.json() as {
+        status: "running" | "complete" | "failed";
+        percentage?: number;
+        step?: string;
+        error?: string;
+        result?: Record<string, unknown>;
+      };
+
+      if (status.status === "complete") {
+        forget();
+        return finishedResult(toShareResult({ sandboxId, ...status.result }));
+      }
+      if (status.status === "failed") {
+        forget();
+        return failedResult(status.error || "Unknown error");
+      }
+      if (args.wait === false) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              status: "running",
+              sandboxId,
+              percentage: status.percentage ?? null,
+              step: status.step ?? null,
+            }, null, 2),
+          }],
+        };
+      }
+
+      // Still building: follow the progress stream until the result arrives
+      resetMessageState();
+      const eventsResponse = await shareApiFetch(`${SHARE_API_URL}/share/status/${encodeURIComponent(sandboxId)}/events`, authData.apiKey, {
+        headers: { Accept: "text/event-stream" },
+        signal: extra.signal,
+      });
+      if (!eventsResponse.ok) {
+        const errorText = await eventsResponse.text();
+        throw new Error(`Couldn't reconnect to the share (${eventsResponse.status}): ${errorText || "Empty response"}`);
+      }
+
+      let serverError: string | undefined;
+      let result: ShareResult;
+      try {
+        result = await readShareStream(
+          eventsResponse,
+          authData.apiKey,
+          "Share",
+          sendProgress,
+          async (message) => {
+            serverError = message;
+          },
+          { signal: extra.signal, started: { sandboxId } }
+        );
+      } catch (error) {
+        if (serverError !== undefined) {
+          forget();
+          return failedResult(serverError);
+        }
+        throw error;
+      }
+
+      forget();
+      openInBrowser(result.inflightUrl);
+      return finishedResult(result);
+    } catch (error) {
+      if (extra.signal.aborted) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: "Stopped following the share. It keeps building on Inflight; call share_status again to get the result.",
+          }],
+        };
+      }
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Local MCP] share_status failed: ${message}`);
+      return {
+        content: [{ type: "text" as const, text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  })
+);
+
+// Tool: Local share history
+server.tool(
+  "share_history",
+  "List shares run from this machine (successful and failed), newest first, with their repo, branch, commit, URLs, version and sandbox IDs. Reads a local history file, no network call.",
+  {
+    repo: z.string().optional().describe("Only shares whose repo URL or project directory contains this text (case-insensitive)"),
+    branch: z.string().optional().describe("Only shares of this branch"),
+    status: z.enum(["success", "failed"]).optional().describe("Only successful or only failed shares"),
+    since: z.string().optional().describe("Only shares at or after this date/time (ISO 8601, e.g. 2024-05-01 or 2024-05-01T09:00:00Z)"),
+    limit: z.number().int().min(1).max(200).optional().describe("Maximum number of shares to return (default: 20)"),
+  },
+  withProfileContext(async (args) => {
+    let since: Date | undefined;
+    if (args.since) {
+      since = new Date(args.since);
+      if (Number.isNaN(since.getTime())) {
+        return {
+          content: [{ type: "text" as const, text: `Error: "${args.since}" isn't a valid date. Use ISO 8601, e.g. 2024-05-01.` }],
+          isError: true,
+        };
+      }
+    }
+
+    const entries = readShareHistory({ repo: args.repo, branch: args.branch, status: args.status, since });
+    const limit = args.limit ?? 20;
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          shares: entries.slice(0, limit),
+          total: entries.length,
+          ...(entries.length > limit && { truncated: true }),
+        }, null, 2),
+      }],
+    };
+  })
+);
+
+/**
+ * Review comment on a shared version, as returned by the Share API
+ */
+interface FeedbackComment {
+  id: string;
+  author: { name: string; email?: string };
+  body: string;
+  status: "open" | "resolved";
+  createdAt: string;
+  /** Route/page of the prototype the comment was left on */
+  route?: string;
+  pageUrl?: string;
+  /** Element the comment is pinned to */
+  element?: { selector?: string; text?: string; tagName?: string };
+  screenshotUrl?: string;
+  replies?: Array<{ id: string; author: { name: string; email?: string }; body: string; createdAt: string }>;
+}
+
+// Screenshots beyond these limits are listed by URL only
+const MAX_FEEDBACK_SCREENSHOTS = 10;
+const MAX_SCREENSHOT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Whether a URL points at the Share API itself. Compares origins so hosts like
+ * share-api.example.com.evil.com or share-api.example.com@evil.com never get the API key.
+ */
+function isShareApiUrl(url: string): boolean {
+  try {
+    return new URL(url).origin === new URL(SHARE_API_URL).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Download a comment screenshot as MCP image content, or null if it can't be used
+ */
+async function fetchScreenshot(url: string, apiKey: string): Promise<{ type: "image"; data: string; mimeType: string } | null> {
+  try {
+    // Screenshots served by the Share API need the API key; anything else is a signed URL
+    const response = isShareApiUrl(url)
+      ? await shareApiFetch(url, apiKey, { signal: AbortSignal.timeout(30_000) })
+      : await fetch(url, { signal: AbortSignal.timeout(30_000) });
+    const mimeType = (response.headers.get("content-type") || "").split(";")[0].trim();
+    if (!response.ok || !mimeType.startsWith("image/")) {
+      return null;
+    }
+    const bytes = Buffer.from(await response.arrayBuffer());
+    if (bytes.length > MAX_SCREENSHOT_BYTES) {
+      return null;
+    }
+    return { type: "image", data: bytes.toString("base64"), mimeType };
+  } catch (error) {
+    if (error instanceof ShareApiAuthError) throw error;
+    console.error(`[Local MCP] Failed to fetch screenshot ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Version ID of the latest successful share of a directory's current branch, from the local history
+ */
+async function latestSharedVersion(dir: string): Promise<{ versionId: string; branch?: string } | null> {
+  const branch = (await getCurrentBranch(dir)) || undefined;
+  const directory = resolve(dir);
+  const entry = readShareHistory({ branch, status: "success" })
+    .find((share) => share.directory === directory && share.versionId);
+  return entry ? { versionId: entry.versionId!, branch } : null;
+}
+
+// Tool: Get review feedback
+server.tool(
+  "get_feedback",
+  "Get reviewer comments on a shared version: author, status, the page/route and element each comment is pinned to, replies, and screenshots as images. Defaults to the latest share of the current branch.",
+  {
+    versionId: z.string().optional().describe("Version to get feedback for (default: the latest share of the current branch from this machine)"),
+    directory: z.string().optional().describe("Project directory used to find the latest share (defaults to cwd)"),
+    status: z.enum(["open", "resolved", "all"]).optional().describe("Which comments to return (default: open)"),
+    includeScreenshots: z.boolean().optional().describe("Attach comment screenshots as images (default: true)"),
+  },
+  withProfileContext(async (args) => {
+    const authData = getAuthData();
+    if (!authData) {
+      return {
+        content: [{ type: "text" as const, text: "Not authenticated. Please run inflight_login first." }],
+        isError: true,
+      };
+    }
+
+    const dir = args.directory || process.cwd();
+    let versionId = args.versionId;
+    if (!versionId) {
+      const latest = await latestSharedVersion(dir);
+      if (!latest) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: "Couldn't find a share of this branch in the local share history. Pass a versionId (see share_history or check_existing_versions).",
+          }],
+          isError: true,
+        };
+      }
+      versionId = latest.versionId;
+      console.error(`[Local MCP] Using latest share of ${latest.branch || "this directory"}: version ${versionId}`);
+    }
+
+    const status = args.status || "open";
+
+    try {
+      const url = new URL(`${SHARE_API_URL}/share/versions/${encodeURIComponent(versionId)}/comments`);
+      if (status !== "all") {
+        url.searchParams.set("status", status);
+      }
+
+      const response = await shareApiFetch(url.toString(), authData.apiKey);
+      if (response.status === 404) {
+        return {
+          content: [{ type: "text" as const, text: `No version ${versionId} found on Inflight.` }],
+          isError: true,
+        };
+      }
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Failed to get feedback (${response.status}): ${text || response.statusText}`);
+      }
+
+      const result = await response.json() as {
+        version?: { id: string; projectId?: string; inflightUrl?: string };
+        comments: FeedbackComment[];
+      };
+      const comments = result.comments || [];
+
+      // Screenshots follow the JSON, each labelled with its comment
+      const images: ToolResult["content"] = [];
+      const screenshotsSkipped: string[] = [];
+      if (args.includeScreenshots !== false) {
+        let attached = 0;
+        for (const comment of comments.filter((c) => c.screenshotUrl)) {
+          const image = attached < MAX_FEEDBACK_SCREENSHOTS
+            ? await fetchScreenshot(comment.screenshotUrl!, authData.apiKey)
+            : null;
+          if (image) {
+            attached++;
+            images.push({ type: "text" as const, text: `Screenshot for comment ${comment.id}:` }, image);
+          } else {
+            screenshotsSkipped.push(comment.id);
+          }
+        }
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({
+              versionId,
+              ...(result.version?.inflightUrl && { inflightUrl: result.version.inflightUrl }),
+              status,
+              commentCount: comments.length,
+              comments: comments.map((c) => ({
+                id: c.id,
+                author: c.author?.name || "Unknown",
+                status: c.status,
+                body: c.body,
+                route: c.route || null,
+                pageUrl: c.pageUrl || null,
+                element: c.element || null,
+                createdAt: c.createdAt,
+                replies: (c.replies || []).map((r) => ({ id: r.id, author: r.author?.name || "Unknown", body: r.body, createdAt: r.createdAt })),
+                ...(c.screenshotUrl && { screenshotUrl: c.screenshotUrl }),
+              })),
+              ...(screenshotsSkipped.length > 0 && {
+                screenshotsNotAttached: screenshotsSkipped,
+              }),
+            }, null, 2),
+          },
+          ...images,
+        ],
+      };
+    } catch (error) {
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Local MCP] get_feedback failed: ${message}`);
+      return {
+        content: [{ type: "text" as const, text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  })
+);
+
+// Tool: Reply to a review comment
+server.tool(
+  "reply_to_comment",
+  "Reply to a reviewer's comment thread on Inflight, e.g. to say how the feedback was addressed.",
+  {
+    commentId: z.string().describe("Comment to reply to (from get_feedback)"),
+    body: z.string().min(1).describe("Reply text (Markdown)"),
+  },
+  withProfileContext(async (args) => {
+    const authData = getAuthData();
+    if (!authData) {
+      return {
+        content: [{ type: "text" as const, text: "Not authenticated. Please run inflight_login first." }],
+        isError: true,
+      };
+    }
+
+    try {
+      const response = await shareApiFetch(`${SHARE_API_URL}/share/comments/${encodeURIComponent(args.commentId)}/replies`, authData.apiKey, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body: args.body }),
+      });
+      if (response.status === 404) {
+        return {
+          content: [{ type: "text" as const, text: `No comment ${args.commentId} found on Inflight.` }],
+          isError: true,
+        };
+      }
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Failed to reply (${response.status}): ${text || response.statusText}`);
+      }
+
+      const reply = await response.json() as { id: string; createdAt?: string };
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ success: true, commentId: args.commentId, replyId: reply.id }, null, 2),
+        }],
+      };
+    } catch (error) {
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Local MCP] reply_to_comment failed: ${message}`);
+      return {
+        content: [{ type: "text" as const, text: `Error: ${message}` }],
+        isError: true,
+      };
+    }
+  })
+);
+
+// Tool: Resolve review comments
+server.tool(
+  "resolve_comments",
+  "Mark reviewer comments as resolved on Inflight, optionally linking the commit that fixed them. Commit the fix first when linking the current commit.",
+  {
+    commentIds: z.array(z.string()).min(1).describe("Comments to resolve (from get_feedback)"),
+    linkCommit: z.boolean().optional().describe("Link the current HEAD commit of the project as the fix (default: false)"),
+    commitSha: z.string().regex(/^[0-9a-f]{7,40}$/i, "Expected a commit SHA").optional().describe("Link this commit as the fix instead of HEAD"),
+    directory: z.string().optional().describe("Project directory to read the commit from (defaults to cwd)"),
+  },
+  withProfileContext(async (args) => {
+    const authData = getAuthData();
+    if (!authData) {
+      return {
+        content: [{ type: "text" as const, text: "Not authenticated. Please run inflight_login first." }],
+        isError: true,
+      };
+    }
+
+    // An explicit commitSha may not be on the checked-out branch, so only HEAD gets a branch
+    let fix: { commitSha: string; branch?: string } | undefined;
+    if (args.commitSha) {
+      fix = { commitSha: args.commitSha };
+    } else if (args.linkCommit) {
+      const dir = args.directory || process.cwd();
+      const [commitSha, branch] = await Promise.all([gitExec(["rev-parse", "HEAD"], dir), getCurrentBranch(dir)]);
+      if (!commitSha) {
+        return {
+          content: [{ type: "text" as const, text: "Couldn't read the current commit. Make sure the directory is a git repo with at least one commit, or pass commitSha." }],
+          isError: true,
+        };
+      }
+      fix = { commitSha, ...(branch && { branch }) };
+    }
+
+    const resolved: string[] = [];
+    const failed: Array<{ commentId: string; error: string }> = [];
+    try {
+      for (const commentId of args.commentIds) {
+        const response = await shareApiFetch(`${SHARE_API_URL}/share/comments/${encodeURIComponent(commentId)}/resolve`, authData.apiKey, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...fix }),
+        });
+        if (response.ok) {
+          resolved.push(commentId);
+        } else {
+          const text = await response.text();
+          failed.push({
+            commentId,
+            error: response.status === 404 ? "Comment not found" : `${response.status}: ${text || response.statusText}`,
+          });
+        }
+      }
+    } catch (error) {
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Local MCP] resolve_comments failed: ${message}`);
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ error: message, resolved }, null, 2),
+        }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          resolved,
+          ...(failed.length > 0 && { failed }),
+          ...(fix && { linkedCommit: fix.commitSha }),
+        }, null, 2),
+      }],
+      ...(resolved.length === 0 && { isError: true }),
+    };
+  })
+);
+
+/**
+ * A running share_watch, one per project directory
+ */
+interface ShareWatch {
+  watcher: ShareWatcher;
+  trigger: WatchTrigger;
+  debounceMs: number;
+  /** Project new versions go to; set by the first publish if it created the project */
+  projectId?: string;
+  startedAt: string;
+  versions: Array<{ versionId: string; inflightUrl: string; reason: string; publishedAt: string }>;
+  lastError?: { message: string; reason: string; at: string };
+  /** Aborts the publish in progress when the watch is stopped */
+  abort: AbortController;
+}
+
+const shareWatches = new Map<string, ShareWatch>();
+
+function describeWatch(directory: string, watch: ShareWatch) {
+  return {
+    directory,
+    trigger: watch.trigger,
+    ...(watch.watcher.branch && { branch: watch.watcher.branch }),
+    debounceSeconds: watch.debounceMs / 1000,
+    projectId: watch.projectId || null,
+    startedAt: watch.startedAt,
+    publishing: watch.watcher.publishing,
+    versionsPublished: watch.versions.length,
+    ...(watch.versions.length > 0 && { latestVersion: watch.versions[watch.versions.length - 1] }),
+    ...(watch.lastError && { lastError: watch.lastError }),
+  };
+}
+
+// Tool: Watch a project and publish new versions as it changes
+server.tool(
+  "share_watch",
+  "Watch the project and automatically publish a new version to the same Inflight project after each new commit on the current branch (or after files are saved), once changes settle. Runs in the background until share_watch_stop.",
+  {
+    directory: z.string().optional().describe("Project directory (defaults to cwd)"),
+    trigger: z.enum(["commit", "save"]).optional().describe("Publish after new commits on the current branch, or after saved files (default: commit)"),
+    debounceSeconds: z.number().min(1).max(600).optional().describe("Wait this long after the last change before publishing (default: 10 for commit, 30 for save)"),
+    existingProjectId: z.string().optional().describe("Project to add versions to (default: projectId from inflight.config.json, else the project check_existing_versions finds for this repo, else the first version creates one)"),
+    workspaceId: z.string().optional().describe("Inflight workspace ID (default: workspaceId from inflight.config.json, else your default workspace)"),
+    useStaticAnalysis: z.boolean().optional().describe("Use static dependency analysis to upload only relevant files (experimental)"),
+    secrets: z.enum(["block", "redact"]).optional().describe("What to do when a version contains likely secrets: 'block' skips publishing it, 'redact' replaces them with [REDACTED] (default: block)"),
+  },
+  withProfileContext(async (args) => {
+    const dir = resolve(args.directory || process.cwd());
+    const existing = shareWatches.get(dir);
+    if (existing) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({ alreadyWatching: true, ...describeWatch(dir, existing) }, null, 2),
+        }],
+      };
+    }
+
+    if (!existsSync(dir)) {
+      return {
+        content: [{ type: "text" as const, text: `Couldn't find that directory: ${dir}` }],
+        isError: true,
+      };
+    }
+
+    // Watch mode runs unattended, so it can't open the sign-in flow
+    const authData = getAuthData();
+    if (!authData) {
+      return {
+        content: [{ type: "text" as const, text: "Not authenticated. Please run inflight_login first." }],
+        isError: true,
+      };
+    }
+
+    let projectConfig: LoadedProjectConfig;
+    try {
+      projectConfig = loadProjectConfig(dir);
+    } catch (error) {
+      if (error instanceof ProjectConfigError) {
+        return projectConfigErrorResult(error);
+      }
+      throw error;
+    }
+    const { config } = projectConfig;
+
+    // Same project check_existing_versions would suggest
+    let projectId = args.existingProjectId || config.projectId;
+    if (!projectId) {
+      const gitInfo = await getGitInfo(dir);
+      if (gitInfo.gitUrl) {
+        try {
+          const lookup = await lookupProject(authData.apiKey, gitInfo.gitUrl, args.workspaceId || config.workspaceId);
+          if (lookup.found && lookup.project?.id) {
+            projectId = lookup.project.id;
+          }
+        } catch (error) {
+          if (error instanceof ShareApiAuthError) {
+            return authErrorResult(error);
+          }
+          await log(`Project lookup failed, the first watched version will create a project`, "warning");
+        }
+      }
+    }
+
+    const trigger = args.trigger || "commit";
+    const debounceMs = (args.debounceSeconds ?? (trigger === "commit" ? 10 : 30)) * 1000;
+
+    const watch: ShareWatch = {
+      trigger,
+      debounceMs,
+      projectId,
+      startedAt: new Date().toISOString(),
+      versions: [],
+      abort: new AbortController(),
+      watcher: new ShareWatcher(
+        {
+          directory: dir,
+          trigger,
+          debounceMs,
+          onNotice: (message) => void log(`Watch (${dir}): ${message}`, "warning"),
+        },
+        async (reason) => {
+          await log(`Watch (${dir}): publishing a new version (${reason})`);
+          // Pick up config edits made while watching
+          let latestConfig = projectConfig;
+          try {
+            latestConfig = loadProjectConfig(dir);
+          } catch (error) {
+            await log(`Watch (${dir}): ignoring invalid project config: ${error instanceof Error ? error.message : String(error)}`, "warning");
+          }
+          const result = await runShare(
+            {
+              directory: dir,
+              workspaceId: args.workspaceId,
+              existingProjectId: watch.projectId,
+              useStaticAnalysis: args.useStaticAnalysis,
+              secrets: args.secrets,
+            },
+            latestConfig,
+            {
+              signal: watch.abort.signal,
+              openBrowser: false,
+              // Nobody is there to finish a sign-in; the failure is reported as lastError
+              interactiveAuth: false,
+              onShared: (shared) => {
+                watch.projectId ||= shared.projectId;
+                watch.versions.push({
+                  versionId: shared.versionId,
+                  inflightUrl: shared.inflightUrl,
+                  reason,
+                  publishedAt: new Date().toISOString(),
+                });
+              },
+            }
+          );
+          if (result.isError) {
+            const message = result.content[0]?.type === "text" ? result.content[0].text : "Share failed";
+            watch.lastError = { message, reason, at: new Date().toISOString() };
+            await log(`Watch (${dir}): publishing failed: ${message}`, "error");
+          } else {
+            const latest = watch.versions[watch.versions.length - 1];
+            await log(`Watch (${dir}): published version ${latest?.versionId}: ${latest?.inflightUrl}`);
+          }
+        }
+      ),
+    };
+
+    try {
+      await watch.watcher.start();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text" as const, text: `Couldn't start watching: ${message}` }],
+        isError: true,
+      };
+    }
+    shareWatches.set(dir, watch);
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          watching: true,
+          ...describeWatch(dir, watch),
+          message: trigger === "commit"
+            ? `Publishing a new version after each new commit on ${watch.watcher.branch}. Stop with share_watch_stop.`
+            : "Publishing a new version after files are saved. Stop with share_watch_stop.",
+        }, null, 2),
+      }],
+    };
+  })
+);
+
+// Tool: Stop watching a project
+server.tool(
+  "share_watch_stop",
+  "Stop a share_watch and report the versions it published. A version being published is cancelled.",
+  {
+    directory: z.string().optional().describe("Project directory being watched (default: cwd, or the only active watch)"),
+  },
+  withProfileContext(async (args) => {
+    let dir = resolve(args.directory || process.cwd());
+    if (!args.directory && !shareWatches.has(dir) && shareWatches.size === 1) {
+      dir = [...shareWatches.keys()][0];
+    }
+
+    const watch = shareWatches.get(dir);
+    if (!watch) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            stopped: false,
+            message: `No watch running for ${dir}.`,
+            activeWatches: [...shareWatches.keys()],
+          }, null, 2),
+        }],
+      };
+    }
+
+    const wasPublishing = watch.watcher.publishing;
+    watch.watcher.stop();
+    watch.abort.abort();
+    shareWatches.delete(dir);
+
+    return {
+      content: [{
+        type: "text" as const,
+        text: JSON.stringify({
+          stopped: true,
+          ...describeWatch(dir, watch),
+          publishing: false,
+          ...(wasPublishing && { cancelledInProgress: true }),
+          versions: watch.versions,
+        }, null, 2),
+      }],
+    };
+  })
+);
+
+// Changes to these need a reinstall or dev server restart, which a file sync can't trigger
+const DEPENDENCY_FILES = ["package.json", "package-lock.json", "yarn.lock", "pnpm-lock.yaml", "bun.lockb"];
+
+/**
+ * Requests for a sandbox sync: changed files in batches under the request size limit,
+ * with the deletions on the last batch if they fit there, else in requests of their own
+ */
+function sandboxSyncRequests(changed: FileMap, deleted: string[]): Array<{ files: FileMap; deletedFiles?: string[] }> {
+  const requests: Array<{ files: FileMap; deletedFiles?: string[] }> =
+    (needsChunkedUpload(changed) ? chunkFiles(changed) : [changed]).map((files) => ({ files }));
+  if (deleted.length === 0) {
+    return requests;
+  }
+
+  const last = requests[requests.length - 1];
+  const deletedSize = Buffer.byteLength(JSON.stringify(deleted));
+  if (calculateSerializedSize(last.files) + deletedSize <= CHUNK_THRESHOLD) {
+    last.deletedFiles = deleted;
+    return requests;
+  }
+
+  // Room for {"files":{},"deletedFiles":[...]} around the paths
+  let group: string[] = [];
+  let groupSize = 64;
+  for (const filePath of deleted) {
+    const pathSize = Buffer.byteLength(JSON.stringify(filePath)) + 1;
+    if (group.length > 0 && groupSize + pathSize > MAX_CHUNK_SIZE) {
+      requests.push({ files: {}, deletedFiles: group });
+      group = [];
+      groupSize = 64;
+    }
+    group.push(filePath);
+    groupSize += pathSize;
+  }
+  requests.push({ files: {}, deletedFiles: group });
+  return requests;
+}
+
+/**
+ * Manifest of the files currently in a sandbox: the Share API's, else the one saved
+ * when this machine last shared or updated it
+ */
+async function getSandboxManifest(
+  apiKey: string,
+  sandboxId: string
+): Promise<{ files: FileManifest; source: "server" | "local" } | null> {
+  const response = await shareApiFetch(`${SHARE_API_URL}/share/sandboxes/${encodeURIComponent(sandboxId)}/manifest`, apiKey);
+  if (response.status === 404 || response.status === 410) {
+    throw new HttpError(response.status, `Sandbox ${sandboxId} isn't running anymore`);
+  }
+  if (response.ok) {
+    const data = await response.json() as { files?: FileManifest };
+    if (data.files) {
+      return { files: data.files, source: "server" };
+    }
+  }
+
+  const local = loadSandboxManifest(sandboxId);
+  return local ? { files: local, source: "local" } : null;
+}
+
+// Tool: Hot-sync local changes into a running prototype
+server.tool(
+  "update_prototype",
+  "Push only the files that changed locally into a running prototype's sandbox, so its dev server hot-reloads them and the Inflight URL stays the same. Much faster than a new share for copy and style tweaks. Optionally records the result as a new version.",
+  {
+    sandboxId: z.string().describe("Sandbox ID from a previous share result (or share_history / prototype_list)"),
+    directory: z.string().optional().describe("Project directory (defaults to cwd)"),
+    createVersion: z.boolean().optional().describe("Also record the updated prototype as a new version of its project (default: false)"),
+    secrets: z.enum(["block", "redact", "override"]).optional().describe("What to do when changed files (or, with createVersion, the diff) contain likely secrets: 'block' stops and lists them, 'redact' replaces them with [REDACTED], 'override' uploads as-is (default: block)"),
+  },
+  withProfileContext(async (args) => {
+    const dir = args.directory || process.cwd();
+    if (!existsSync(dir)) {
+      return {
+        content: [{ type: "text" as const, text: `Couldn't find that directory: ${dir}` }],
+        isError: true,
+      };
+    }
+
+    const authData = getAuthData();
+    if (!authData) {
+      return {
+        content: [{ type: "text" as const, text: "Not authenticated. Please run inflight_login first." }],
+        isError: true,
+      };
+    }
 
-    // Step 4: Read project files (skipped if clone succeeded above)
-    let files: FileMap;
-    let usedStaticAnalysis = false;
-
-    if (args.useStaticAnalysis) {
-      // Experimental: Use static dependency analysis to upload only relevant files
-      await sendProgress(10, 100, "Analyzing dependencies...");
-      try {
-        const analysisResult = await analyzeProjectDependencies(dir, undefined, gitInfo.baseBranch);
-        const localFiles = analysisResult.dependencies.localFiles;
-
-        await log(`  Analysis completed in ${analysisResult.metadata.analysisTimeMs}ms`);
-        await log(`  Changed files: ${analysisResult.changedFiles.length}`);
-        await log(`  UI-relevant entry points: ${analysisResult.metadata.entryPoints.length}`);
-        await log(`  Local dependencies: ${localFiles.length}`);
-        await log(`  NPM packages: ${analysisResult.dependencies.npmPackages.length}`);
-
-        if (localFiles.length > 0) {
-          await sendProgress(11, 100, `Reading ${localFiles.length} analyzed files...`);
-          files = readSpecificFiles(dir, localFiles, true, true);
-          usedStaticAnalysis = true;
-          await log(`  Using static analysis: ${Object.keys(files).length} files to upload`);
-        } else {
-          await log(`  No UI-relevant dependencies found, falling back to full upload`);
-          await sendProgress(11, 100, "Reading all project files...");
-          files = readProjectFiles(dir, true);
-        }
-      } catch (analysisError) {
-        const errorMsg = analysisError instanceof Error ? analysisError.message : String(analysisError);
-        await log(`  Static analysis failed: ${errorMsg}`, "warning");
-        await log(`  Falling back to full project upload`);
-        await sendProgress(11, 100, "Reading all project files...");
-        files = readProjectFiles(dir, true);
+    let projectConfig: LoadedProjectConfig;
+    try {
+      projectConfig = loadProjectConfig(dir);
+    } catch (error) {
+      if (error instanceof ProjectConfigError) {
+        return projectConfigErrorResult(error);
       }
-    } else {
-      // Default: Read all project files
-      await sendProgress(10, 100, "Reading project files...");
-      files = readProjectFiles(dir, true);
+      throw error;
     }
 
-    const fileCount = Object.keys(files).length;
-    const totalSize = calculateChunkTotalSize(files);
-    const sizeMB = (totalSize / (1024 * 1024)).toFixed(2);
-    await log(`  ${usedStaticAnalysis ? "Analyzed" : "Found"} ${fileCount} files (${sizeMB} MB)`);
-
-    // Step 5: Check if chunked upload is needed
-    const filesAsFileMap = files as FileMap;
-    const useChunkedUpload = needsChunkedUpload(filesAsFileMap);
-
-    if (useChunkedUpload) {
-      await sendProgress(12, 100, "Uploading project...");
-
-      try {
-        const result = await callChunkedShare(
-          filesAsFileMap,
-          {
-            diff: gitInfo.diff,
-            diffStat: gitInfo.diffStat || '',
-            baseBranch: gitInfo.baseBranch || 'main',
-            currentBranch: gitInfo.currentBranch || 'unknown',
-          },
-          authData.apiKey,
-          resolvedWorkspaceId,
-          args.existingProjectId,
-          gitInfo.gitUrl,
-          async (percentage: number, step: string) => {
-            await sendProgress(percentage, 100, step);
-          },
-          async (message) => {
-            await log(`Error: ${message}`, "error");
-          }
-        );
-
-        await sendProgress(100, 100, "Done!");
-
-        openInBrowser(result.inflightUrl);
+    const sandboxId = args.sandboxId;
+    const filesUrl = `${SHARE_API_URL}/share/sandboxes/${encodeURIComponent(sandboxId)}/files`;
 
+    try {
+      const base = await getSandboxManifest(authData.apiKey, sandboxId);
+      if (!base) {
         return {
           content: [{
             type: "text" as const,
-            text: JSON.stringify({
-              success: true,
-              previewUrl: result.previewUrl,
-              sandboxUrl: result.sandboxUrl,
-              sandboxId: result.sandboxId,
-              inflightUrl: result.inflightUrl,
-              versionId: result.versionId,
-              projectId: result.projectId,
-              fileCount,
-              chunkedUpload: true,
-              ...(resolvedWorkspaceName && { workspace: resolvedWorkspaceName }),
-              ...(githubAppTip && { githubAppTip }),
-              ...(branchNotPushedTip && { branchNotPushedTip }),
-            }, null, 2),
+            text: `Couldn't tell which files sandbox ${sandboxId} has (it wasn't shared from this machine and Inflight didn't return a manifest). Run share to publish a new version instead.`,
           }],
+          isError: true,
         };
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
+      }
+
+      const readResult = await readShareFiles(dir, {}, async (_progress, message) => log(message));
+      const files = applyProjectFileFilters(readResult.files, projectConfig);
+      const manifest = buildManifest(files);
+      const delta = diffManifest(base.files, files, manifest);
+      const changedPaths = [...delta.added, ...delta.modified];
+
+      if (changedPaths.length === 0 && delta.deleted.length === 0) {
         return {
           content: [{
             type: "text" as const,
-            text: `Something went wrong while sharing: ${message}`,
+            text: JSON.stringify({ updated: false, sandboxId, message: "The prototype already matches your local files." }, null, 2),
           }],
-          isError: true,
         };
       }
-    }
 
-    // Step 5b: Standard upload (< 3MB)
-    await sendProgress(12, 100, `Uploading ${sizeMB} MB to Inflight...`);
+      // Only the files being sent are scanned; everything else is already in the sandbox
+      let changed = delta.changed;
+      const secretHandling = args.secrets || "block";
+      const findings = scanFilesForSecrets(changed);
+      if (findings.length > 0) {
+        if (secretHandling === "block") {
+          return secretsBlockedResult(findings);
+        } else if (secretHandling === "redact") {
+          changed = redactFiles(changed).files;
+          await log(`  Redacted ${findings.length} possible secret(s)`);
+        } else {
+          await log(`  Uploading ${findings.length} possible secret(s) (override)`, "warning");
+        }
+      }
 
-    try {
-      const result = await callShareWithSSE(
-        {
-          files,
-          gitDiff: {
-            diff: gitInfo.diff,
-            diffStat: gitInfo.diffStat || '',
-            baseBranch: gitInfo.baseBranch || 'main',
-            currentBranch: gitInfo.currentBranch || 'unknown',
-          },
-          userId: authData.userId,
-          workspaceId: resolvedWorkspaceId,
-          existingProjectId: args.existingProjectId,
-          gitUrl: gitInfo.gitUrl,
-        },
-        authData.apiKey,
-        // Progress callback - remap server percentages (0-100) to our range (12-100)
-        // so progress never jumps backwards after local steps reach 12%
-        async (percentage: number, step: string) => {
-          const remapped = 12 + Math.floor((percentage / 100) * 88);
-          await sendProgress(remapped, 100, step);
-        },
-        async (message) => {
-          await log(`Error: ${message}`, "error");
+      // A new version carries the diff too; it's checked before anything is synced, as share does
+      const gitInfo = args.createVersion ? await getGitInfo(dir, projectConfig.config.baseBranch) : undefined;
+      const diffFindings = scanDiffForSecrets(gitInfo?.diff || "");
+      if (gitInfo && diffFindings.length > 0) {
+        if (secretHandling === "block") {
+          return secretsBlockedResult(diffFindings);
+        } else if (secretHandling === "redact") {
+          gitInfo.diff = redactSecrets(gitInfo.diff || "");
+          await log(`  Redacted ${diffFindings.length} possible secret(s) from the diff`);
+        } else {
+          await log(`  Uploading diff with ${diffFindings.length} possible secret(s) (override)`, "warning");
         }
-      );
+      }
 
-      await sendProgress(100, 100, "Done!");
+      const oversized = findOversizedFiles(changed);
+      if (oversized.length > 0) {
+        return oversizedFilesResult(oversized);
+      }
 
-      openInBrowser(result.inflightUrl);
+      // Batches stay under the request size limit, deletions included
+      const batches = sandboxSyncRequests(changed, delta.deleted);
+      for (const [index, batch] of batches.entries()) {
+        const body = JSON.stringify(batch);
+        assertRequestSize(body, `Sync batch ${index + 1}`);
+        await withRetry(async () => {
+          const response = await shareApiFetch(filesUrl, authData.apiKey, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body,
+          });
+          if (!response.ok) {
+            const text = await response.text();
+            throw new HttpError(response.status, `Failed to update sandbox (${response.status}): ${text || response.statusText}`, parseRetryAfter(response.headers.get("retry-after")));
+          }
+        }, {
+          onRetry: (attempt, delayMs, error) => log(`  Sync batch ${index + 1}/${batches.length} failed (${error instanceof Error ? error.message : String(error)}), retrying in ${delayMs}ms (attempt ${attempt})`, "warning"),
+        });
+      }
+
+      // Redacted files differ from the local ones, so the next update sends them again
+      saveSandboxManifest(sandboxId, secretHandling === "redact" && findings.length > 0 ? buildManifest({ ...files, ...changed }) : manifest);
+
+      let version: { versionId: string; inflightUrl?: string } | undefined;
+      if (gitInfo) {
+        const response = await shareApiFetch(`${SHARE_API_URL}/share/sandboxes/${encodeURIComponent(sandboxId)}/versions`, authData.apiKey, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            gitDiff: {
+              diff: gitInfo.diff || '',
+              diffStat: gitInfo.diffStat || '',
+              baseBranch: gitInfo.baseBranch || 'main',
+              currentBranch: gitInfo.currentBranch || 'unknown',
+            },
+          }),
+        });
+        if (!response.ok) {
+          const text = await response.text();
+          throw new Error(`Files were synced, but creating a version failed (${response.status}): ${text || response.statusText}`);
+        }
+        version = await response.json() as { versionId: string; inflightUrl?: string };
+      }
+
+      const dependencyChanges = [...changedPaths, ...delta.deleted].filter((p) => DEPENDENCY_FILES.includes(p.split("/").pop() || ""));
 
       return {
         content: [{
           type: "text" as const,
           text: JSON.stringify({
-            success: true,
-            previewUrl: result.previewUrl,
-            sandboxUrl: result.sandboxUrl,
-            ngrokUrl: result.ngrokUrl || null,
-            sandboxId: result.sandboxId,
-            inflightUrl: result.inflightUrl,
-            versionId: result.versionId,
-            projectId: result.projectId,
-            fileCount,
-            diffSummary: result.diffSummary,
-            ...(resolvedWorkspaceName && { workspace: resolvedWorkspaceName }),
-            ...(githubAppTip && { githubAppTip }),
-              ...(branchNotPushedTip && { branchNotPushedTip }),
+            updated: true,
+            sandboxId,
+            manifestSource: base.source,
+            added: delta.added,
+            modified: delta.modified,
+            deleted: delta.deleted,
+            unchanged: delta.unchanged,
+            ...(version && { versionId: version.versionId, inflightUrl: version.inflightUrl }),
+            ...(dependencyChanges.length > 0 && {
+              dependencyTip: `${dependencyChanges.join(", ")} changed. The dev server won't install new dependencies on its own; run share if the prototype doesn't pick them up.`,
+            }),
           }, null, 2),
         }],
       };
-
     } catch (error) {
+      if (error instanceof ShareApiAuthError) {
+        return authErrorResult(error);
+      }
+      if (error instanceof GitRefError) {
+        return gitRefErrorResult(error);
+      }
+      if (error instanceof HttpError && (error.status === 404 || error.status === 410)) {
+        return {
+          content: [{ type: "text" as const, text: `Sandbox ${sandboxId} isn't running anymore. Run share to publish a new version.` }],
+          isError: true,
+        };
+      }
       const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Local MCP] update_prototype failed: ${message}`);
       return {
-        content: [{
-          type: "text" as const,
-          text: `Something went wrong while sharing: ${message}`,
-        }],
+        content: [{ type: "text" as const, text: `Error: ${message}` }],
         isError: true,
       };
     }
-  }
+  })
 );
 
+/**
+ * Cancellation signal and server-side IDs for one share call.
+ * IDs are recorded as soon as the server reports them, so a cancelled
+ * share can tell the Share API what to tear down.
+ */
+interface ShareCallContext {
+  signal?: AbortSignal;
+  started?: { sessionId?: string; sandboxId?: string };
+  /** Called whenever a new ID is recorded, to persist it right away */
+  onStarted?: (started: { sessionId?: string; sandboxId?: string }) => void;
+}
+
+function recordStartedIds(context: ShareCallContext, data: { sessionId?: unknown; sandboxId?: unknown }): void {
+  const started = context.started;
+  if (!started) return;
+  let changed = false;
+  if (typeof data.sessionId === "string" && data.sessionId !== started.sessionId) {
+    started.sessionId = data.sessionId;
+    changed = true;
+  }
+  if (typeof data.sandboxId === "string" && data.sandboxId !== started.sandboxId) {
+    started.sandboxId = data.sandboxId;
+    changed = true;
+  }
+  if (changed) {
+    context.onStarted?.(started);
+  }
+}
+
+/**
+ * Ask the Share API to tear down a share that was cancelled locally
+ * (upload session and/or sandbox). Returns false if the request failed.
+ */
+async function cancelShareOnServer(
+  apiKey: string,
+  started: { sessionId?: string; sandboxId?: string }
+): Promise<boolean> {
+  try {
+    const response = await shareApiFetch(`${SHARE_API_URL}/share/cancel`, apiKey, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(started),
+      signal: AbortSignal.timeout(10_000),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a share's progress stream until its complete event. If the connection
+ * drops or goes idle, the stream is reopened from the sandbox's progress
+ * endpoint with Last-Event-ID, so no progress or result is lost.
+ * `label` names the flow in errors ("Share", "Clone share", ...).
+ */
+async function readShareStream(
+  response: Response,
+  apiKey: string,
+  label: string,
+  onProgress: (percentage: number, step: string) => Promise<void>,
+  onError: (message: string) => Promise<void>,
+  context: ShareCallContext
+): Promise<ShareResult> {
+  const events = readSSE(response, {
+    signal: context.signal,
+    reconnect: async (lastEventId) => {
+      const sandboxId = context.started?.sandboxId;
+      if (!sandboxId) {
+        throw new Error(`${label} stream was lost before the server reported a sandbox ID`);
+      }
+      const reconnectResponse = await shareApiFetch(`${SHARE_API_URL}/share/status/${encodeURIComponent(sandboxId)}/events`, apiKey, {
+        headers: {
+          Accept: "text/event-stream",
+          ...(lastEventId && { "Last-Event-ID": lastEventId }),
+        },
+        signal: context.signal,
+      });
+      if (!reconnectResponse.ok) {
+        throw new HttpError(reconnectResponse.status, `Couldn't reconnect to ${label.toLowerCase()} progress (${reconnectResponse.status})`);
+      }
+      return reconnectResponse;
+    },
+    onReconnect: (attempt, reason) => {
+      const message = reason instanceof Error ? reason.message : String(reason);
+      console.error(`[Local MCP] ${label} stream interrupted (${message}), reconnecting (attempt ${attempt})`);
+    },
+  });
+
+  for await (const event of events) {
+    let data: any;
+    try {
+      data = JSON.parse(event.data);
+    } catch {
+      console.error(`[Local MCP] Ignoring malformed ${event.event} event: ${event.data.slice(0, 200)}`);
+      continue;
+    }
+    recordStartedIds(context, data);
+
+    if (event.event === "progress" || (event.event === "message" && data.step)) {
+      await onProgress(data.percentage || 0, data.step || "Processing...");
+    } else if (event.event === "complete") {
+      return toShareResult(data);
+    } else if (event.event === "error") {
+      const message = data.message || `${label} failed`;
+      await onError(message);
+      throw new Error(message);
+    }
+  }
+
+  throw new Error(`${label} stream ended without completion`);
+}
+
+/**
+ * Result fields of a finished share, as sent in complete events and status responses
+ */
+function toShareResult(data: any): ShareResult {
+  return {
+    inflightUrl: data.inflightUrl,
+    versionId: data.versionId,
+    projectId: data.projectId,
+    sandboxId: data.sandboxId,
+    sandboxUrl: data.sandboxUrl,
+    previewUrl: data.previewUrl || data.sandboxUrl,
+    ngrokUrl: data.ngrokUrl,
+    diffSummary: data.diffSummary,
+  };
+}
+
 /**
  * Call the consolidated /share endpoint with SSE streaming
  */
 interface ShareRequest {
-  files: Record<string, string>;
+  files: FileMap;
   gitDiff: {
     diff: string;
     diffStat: string;
@@ -998,8 +3625,17 @@ interface ShareRequest {
   workspaceId?: string;
   existingProjectId?: string;
   gitUrl?: string;
+  buildHints?: BuildHints;
+  /** Incremental upload: files holds only changes against this version */
+  baseVersionId?: string;
+  deletedFiles?: string[];
 }
 
+/**
+ * Build command/port hints from the project config
+ */
+type BuildHints = ProjectConfig["build"];
+
 interface ShareResult {
   inflightUrl: string;
   versionId: string;
@@ -1019,18 +3655,19 @@ async function callShareWithSSE(
   request: ShareRequest,
   apiKey: string,
   onProgress: (percentage: number, step: string) => Promise<void>,
-  onError: (message: string) => Promise<void>
+  onError: (message: string) => Promise<void>,
+  context: ShareCallContext = {}
 ): Promise<ShareResult> {
   const url = `${SHARE_API_URL}/share`;
 
-  const response = await fetch(url, {
+  const response = await shareApiFetch(url, apiKey, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       Accept: "text/event-stream",
-      Authorization: `Bearer ${apiKey}`,
     },
     body: JSON.stringify(request),
+    signal: context.signal,
   });
 
   if (!response.ok) {
@@ -1038,63 +3675,7 @@ async function callShareWithSSE(
     throw new Error(`Share failed (${response.status}): ${errorText || "Empty response"}`);
   }
 
-  // Process SSE stream
-  const reader = response.body?.getReader();
-  if (!reader) {
-    throw new Error("No response body");
-  }
-
-  const decoder = new TextDecoder();
-  let buffer = "";
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n");
-    buffer = lines.pop() || ""; // Keep incomplete line in buffer
-
-    let currentEvent = "";
-    for (const line of lines) {
-      if (line.startsWith("event: ")) {
-        currentEvent = line.slice(7).trim();
-      } else if (line.startsWith("data: ")) {
-        try {
-          const data = JSON.parse(line.slice(6));
-
-          if (currentEvent === "progress" || (!currentEvent && data.step)) {
-            const pct = data.percentage || 0;
-            const step = data.step || "Processing...";
-            await onProgress(pct, step);
-          } else if (currentEvent === "complete") {
-            return {
-              inflightUrl: data.inflightUrl,
-              versionId: data.versionId,
-              projectId: data.projectId,
-              sandboxId: data.sandboxId,
-              sandboxUrl: data.sandboxUrl,
-              previewUrl: data.previewUrl || data.sandboxUrl,
-              ngrokUrl: data.ngrokUrl,
-              diffSummary: data.diffSummary,
-            };
-          } else if (currentEvent === "error") {
-            await onError(data.message || "Share failed");
-            throw new Error(data.message || "Share failed");
-          }
-        } catch (e) {
-          if (e instanceof Error && e.message !== "Share failed") {
-            // Ignore JSON parse errors, rethrow share errors
-            continue;
-          }
-          throw e;
-        }
-        currentEvent = "";
-      }
-    }
-  }
-
-  throw new Error("Share stream ended without completion");
+  return await readShareStream(response, apiKey, "Share", onProgress, onError, context);
 }
 
 /**
@@ -1111,24 +3692,26 @@ interface CloneShareRequest {
   currentBranch: string;
   workspaceId: string;
   existingProjectId?: string;
+  buildHints?: BuildHints;
 }
 
 async function callCloneShareWithSSE(
   request: CloneShareRequest,
   apiKey: string,
   onProgress: (percentage: number, step: string) => Promise<void>,
-  onError: (message: string) => Promise<void>
+  onError: (message: string) => Promise<void>,
+  context: ShareCallContext = {}
 ): Promise<ShareResult> {
   const url = `${SHARE_API_URL}/share/clone`;
 
-  const response = await fetch(url, {
+  const response = await shareApiFetch(url, apiKey, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       Accept: "text/event-stream",
-      Authorization: `Bearer ${apiKey}`,
     },
     body: JSON.stringify(request),
+    signal: context.signal,
   });
 
   if (!response.ok) {
@@ -1136,66 +3719,61 @@ async function callCloneShareWithSSE(
     throw new Error(`Clone share failed (${response.status}): ${errorText || "Empty response"}`);
   }
 
-  // Process SSE stream (same as callShareWithSSE)
-  const reader = response.body?.getReader();
-  if (!reader) {
-    throw new Error("No response body");
-  }
+  return await readShareStream(response, apiKey, "Clone share", onProgress, onError, context);
+}
 
-  const decoder = new TextDecoder();
-  let buffer = "";
+const gzipAsync = promisify(gzip);
+const brotliAsync = promisify(brotliCompress);
 
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
+/**
+ * Compress a JSON request body for the given Content-Encoding
+ */
+async function compressRequestBody(body: string, encoding: "gzip" | "br"): Promise<Uint8Array<ArrayBuffer>> {
+  const compressed = encoding === "br"
+    ? await brotliAsync(body, { params: { [zlibConstants.BROTLI_PARAM_QUALITY]: 5 } })
+    : await gzipAsync(body, { level: 6 });
+  return new Uint8Array(compressed);
+}
 
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n");
-    buffer = lines.pop() || "";
+/**
+ * Refuse to send a request body the server would reject for its size
+ */
+function assertRequestSize(body: string | Uint8Array, label: string): void {
+  const bytes = typeof body === "string" ? Buffer.byteLength(body) : body.byteLength;
+  if (bytes > MAX_REQUEST_SIZE) {
+    const toMB = (value: number) => (value / (1024 * 1024)).toFixed(1);
+    throw new Error(`${label} is ${toMB(bytes)} MB, over the ${toMB(MAX_REQUEST_SIZE)} MB request limit`);
+  }
+}
 
-    let currentEvent = "";
-    for (const line of lines) {
-      if (line.startsWith("event: ")) {
-        currentEvent = line.slice(7).trim();
-      } else if (line.startsWith("data: ")) {
-        try {
-          const data = JSON.parse(line.slice(6));
-
-          if (currentEvent === "progress" || (!currentEvent && data.step)) {
-            const pct = data.percentage || 0;
-            const step = data.step || "Processing...";
-            await onProgress(pct, step);
-          } else if (currentEvent === "complete") {
-            return {
-              inflightUrl: data.inflightUrl,
-              versionId: data.versionId,
-              projectId: data.projectId,
-              sandboxId: data.sandboxId,
-              sandboxUrl: data.sandboxUrl,
-              previewUrl: data.previewUrl || data.sandboxUrl,
-              ngrokUrl: data.ngrokUrl,
-              diffSummary: data.diffSummary,
-            };
-          } else if (currentEvent === "error") {
-            await onError(data.message || "Clone share failed");
-            throw new Error(data.message || "Clone share failed");
-          }
-        } catch (e) {
-          if (e instanceof Error && e.message !== "Clone share failed") {
-            continue;
-          }
-          throw e;
-        }
-        currentEvent = "";
-      }
+/**
+ * Chunk indexes the server already has for an upload session,
+ * or null if the session no longer exists and can't be resumed
+ */
+async function getChunkedUploadStatus(
+  sessionId: string,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<{ receivedChunks: number[] } | null> {
+  try {
+    const response = await shareApiFetch(`${SHARE_API_URL}/share/chunked/${sessionId}/status`, apiKey, { signal });
+    if (!response.ok) {
+      return null;
+    }
+    const data = await response.json() as { receivedChunks?: number[] };
+    return { receivedChunks: data.receivedChunks || [] };
+  } catch (error) {
+    if (error instanceof ShareApiAuthError || signal?.aborted) {
+      throw error;
     }
+    return null;
   }
-
-  throw new Error("Clone share stream ended without completion");
 }
 
 /**
- * Call chunked share endpoints for large projects (> 3MB)
+ * Call chunked share endpoints for large projects (> 3MB).
+ * Chunks are retried with backoff, and the session is saved locally so
+ * a re-run for the same directory and files resumes where it stopped.
  */
 interface GitDiffInfo {
   diff: string;
@@ -1211,84 +3789,182 @@ async function callChunkedShare(
   workspaceId: string | undefined,
   existingProjectId: string | undefined,
   gitUrl: string | undefined,
+  buildHints: BuildHints,
+  incremental: IncrementalUpload | undefined,
+  directory: string,
   onProgress: (percentage: number, step: string) => Promise<void>,
-  onError: (message: string) => Promise<void>
+  onError: (message: string) => Promise<void>,
+  context: ShareCallContext = {}
 ): Promise<ShareResult> {
   const chunks = chunkFiles(files);
   const stats = getChunkStats(chunks);
 
-  // Step 1: Initialize chunked upload
+  // Identical chunks and parameters mean an interrupted session can be resumed
+  const uploadFingerprint = fingerprint({
+    chunks: chunks.map((chunk) => buildManifest(chunk)),
+    gitDiff,
+    workspaceId,
+    existingProjectId,
+    gitUrl,
+    buildHints,
+    incremental,
+  });
+
+  // Step 1: Resume a previous session for this directory, or initialize a new one
   await onProgress(8, "Uploading project...");
-  const initResponse = await fetch(`${SHARE_API_URL}/share/chunked/init`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
+  let sessionId: string | undefined;
+  let sandboxId: string | undefined;
+  let receivedChunks = new Set<number>();
+
+  const previous = loadUploadSession(directory);
+  if (previous && previous.fingerprint === uploadFingerprint && previous.apiUrl === SHARE_API_URL) {
+    const status = await getChunkedUploadStatus(previous.sessionId, apiKey, context.signal);
+    if (status) {
+      sessionId = previous.sessionId;
+      sandboxId = previous.sandboxId;
+      recordStartedIds(context, { sessionId, sandboxId });
+      receivedChunks = new Set(status.receivedChunks);
+      console.error(`[Local MCP] Resuming upload session ${sessionId} (${receivedChunks.size}/${chunks.length} chunks already uploaded)`);
+    }
+  }
+  if (previous && !sessionId) {
+    clearUploadSession(directory);
+  }
+
+  if (!sessionId) {
+    // The diff travels in full here, so a huge one is caught before anything is sent
+    const initBody = JSON.stringify({
       gitDiff,
       totalChunks: stats.totalChunks,
       totalFiles: stats.totalFiles,
       totalSize: stats.totalSize,
-    }),
-  });
+      ...incremental,
+    });
+    assertRequestSize(initBody, "The diff");
+    const initResponse = await shareApiFetch(`${SHARE_API_URL}/share/chunked/init`, apiKey, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: initBody,
+      signal: context.signal,
+    });
 
-  if (!initResponse.ok) {
-    const errorText = await initResponse.text();
-    throw new Error(`Failed to initialize chunked upload: ${errorText}`);
-  }
+    if (!initResponse.ok) {
+      const errorText = await initResponse.text();
+      throw new Error(`Failed to initialize chunked upload: ${errorText}`);
+    }
 
-  const { sessionId, sandboxId } = await initResponse.json();
+    ({ sessionId, sandboxId } = await initResponse.json() as { sessionId: string; sandboxId?: string });
+    recordStartedIds(context, { sessionId, sandboxId });
+    saveUploadSession({
+      sessionId: sessionId!,
+      sandboxId,
+      directory,
+      fingerprint: uploadFingerprint,
+      totalChunks: chunks.length,
+      apiUrl: SHARE_API_URL,
+      createdAt: new Date().toISOString(),
+    });
+  }
 
-  // Step 2: Upload chunks sequentially
+  // Step 2: Upload chunks in parallel, skipping any the server already has
   const totalMB = (stats.totalSize / (1024 * 1024)).toFixed(1);
+  const chunkSizes = stats.chunkSizes;
   let uploadedSize = 0;
-
-  for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    const chunkSize = Object.values(chunk).reduce((sum, content) => sum + content.length, 0);
-    const chunkProgress = 10 + Math.floor(((i + 1) / chunks.length) * 30); // 10-40%
-
-    uploadedSize += chunkSize;
+  let uploadedChunks = 0;
+  // Falls back to uncompressed bodies if the server doesn't accept the encoding
+  let compression = UPLOAD_COMPRESSION;
+
+  // Progress is derived from completed chunks only, so it never goes backwards
+  // no matter which order concurrent uploads finish in
+  const completeChunk = async (index: number) => {
+    uploadedSize += chunkSizes[index];
+    uploadedChunks++;
+    const chunkProgress = 10 + Math.floor((uploadedChunks / chunks.length) * 30); // 10-40%
     const uploadedMB = (uploadedSize / (1024 * 1024)).toFixed(1);
     await onProgress(chunkProgress, `Uploading ${uploadedMB}/${totalMB} MB...`);
+  };
 
-    const uploadResponse = await fetch(`${SHARE_API_URL}/share/chunked/${sessionId}/upload`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        files: chunk,
-        chunkIndex: i,
-        totalChunks: chunks.length,
-      }),
+  for (const index of receivedChunks) {
+    if (index < chunks.length) {
+      await completeChunk(index);
+    }
+  }
+
+  const pending = chunks.map((_, i) => i).filter((i) => !receivedChunks.has(i));
+
+  await runWithConcurrency(pending, UPLOAD_CONCURRENCY, async (i) => {
+    const body = JSON.stringify({
+      files: chunks[i],
+      chunkIndex: i,
+      totalChunks: chunks.length,
     });
+    // Sent uncompressed if the server turns down the encoding, so both sizes must fit
+    assertRequestSize(body, `Chunk ${i + 1}`);
+
+    // Retry network errors and 5xx with backoff; a chunk upload is idempotent
+    await withRetry(
+      async () => {
+        const encoding = compression;
+        const requestBody = encoding !== "identity" ? await compressRequestBody(body, encoding) : body;
+        assertRequestSize(requestBody, `Chunk ${i + 1} (${encoding})`);
+        const uploadResponse = await shareApiFetch(`${SHARE_API_URL}/share/chunked/${sessionId}/upload`, apiKey, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(encoding !== "identity" && { "Content-Encoding": encoding }),
+          },
+          body: requestBody,
+          signal: context.signal,
+        });
 
-    if (!uploadResponse.ok) {
-      const errorText = await uploadResponse.text();
-      throw new Error(`Failed to upload chunk ${i + 1}: ${errorText}`);
-    }
+        if (uploadResponse.status === 415 && encoding !== "identity") {
+          console.error(`[Local MCP] Server rejected ${encoding}-encoded chunks, sending uncompressed`);
+          compression = "identity";
+          throw new HttpError(uploadResponse.status, `Failed to upload chunk ${i + 1}: unsupported encoding`, 0);
+        }
 
-    await uploadResponse.json();
-  }
+        if (!uploadResponse.ok) {
+          const errorText = await uploadResponse.text();
+          throw new HttpError(
+            uploadResponse.status,
+            `Failed to upload chunk ${i + 1}: ${errorText}`,
+            parseRetryAfter(uploadResponse.headers.get("Retry-After"))
+          );
+        }
+
+        await uploadResponse.json();
+      },
+      {
+        shouldRetry: (error) => error instanceof HttpError && error.status === 415 && compression === "identity",
+        onRetry: (attempt, delayMs, error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`[Local MCP] Chunk ${i + 1} failed (${message}), retry ${attempt} in ${delayMs}ms`);
+        },
+        signal: context.signal,
+      }
+    );
+
+    await completeChunk(i);
+  });
 
   // Step 3: Finalize and get SSE stream
   await onProgress(42, "Building prototype...");
 
-  const finalizeResponse = await fetch(`${SHARE_API_URL}/share/chunked/${sessionId}/finalize`, {
+  const finalizeResponse = await shareApiFetch(`${SHARE_API_URL}/share/chunked/${sessionId}/finalize`, apiKey, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       Accept: "text/event-stream",
-      Authorization: `Bearer ${apiKey}`,
     },
     body: JSON.stringify({
       workspaceId,
       existingProjectId,
       gitUrl,
+      buildHints,
     }),
+    signal: context.signal,
   });
 
   if (!finalizeResponse.ok) {
@@ -1296,63 +3972,20 @@ async function callChunkedShare(
     throw new Error(`Failed to finalize chunked upload: ${errorText}`);
   }
 
-  // Process SSE stream (same as callShareWithSSE)
-  const reader = finalizeResponse.body?.getReader();
-  if (!reader) {
-    throw new Error("No response body");
-  }
-
-  const decoder = new TextDecoder();
-  let buffer = "";
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n");
-    buffer = lines.pop() || "";
-
-    let currentEvent = "";
-    for (const line of lines) {
-      if (line.startsWith("event: ")) {
-        currentEvent = line.slice(7).trim();
-      } else if (line.startsWith("data: ")) {
-        try {
-          const data = JSON.parse(line.slice(6));
-
-          if (currentEvent === "progress" || (!currentEvent && data.step)) {
-            // Remap server progress (5-100) to our range (45-100)
-            const serverPct = data.percentage || 0;
-            const mappedPct = 45 + Math.floor((serverPct / 100) * 55);
-            await onProgress(mappedPct, data.step || "Processing...");
-          } else if (currentEvent === "complete") {
-            return {
-              inflightUrl: data.inflightUrl,
-              versionId: data.versionId,
-              projectId: data.projectId,
-              sandboxId: data.sandboxId,
-              sandboxUrl: data.sandboxUrl,
-              previewUrl: data.previewUrl || data.sandboxUrl,
-              ngrokUrl: data.ngrokUrl,
-              diffSummary: data.diffSummary,
-            };
-          } else if (currentEvent === "error") {
-            await onError(data.message || "Share failed");
-            throw new Error(data.message || "Share failed");
-          }
-        } catch (e) {
-          if (e instanceof Error && e.message !== "Share failed") {
-            continue;
-          }
-          throw e;
-        }
-        currentEvent = "";
-      }
-    }
-  }
+  // The server has taken over the uploaded chunks
+  clearUploadSession(directory);
 
-  throw new Error("Chunked share stream ended without completion");
+  // Remap server progress (0-100) to our range (45-100)
+  return await readShareStream(
+    finalizeResponse,
+    apiKey,
+    "Chunked share",
+    async (serverPct, step) => {
+      await onProgress(45 + Math.floor((serverPct / 100) * 55), step);
+    },
+    onError,
+    context
+  );
 }
 
 // ============= MCP Prompts (slash commands) =============
@@ -1425,7 +4058,7 @@ server.prompt(
     let instructions: string;
 
     if (action === "list") {
-      instructions = `List my Inflight prototypes. Call the \`prototype_list\` MCP tool and show results as a formatted list with: Project Name, Type, Status, Inflight URL, and Created date. If none found, say "No prototypes yet. Use /share to share your first one."`;
+      instructions = `List my Inflight prototypes. Call the \`prototype_list\` MCP tool and show results as a formatted list with: Project Name, Sandbox ID, Type, Status, Inflight URL, and Created date. If more results are available, offer to show the next page. If none found, say "No prototypes yet. Use /share to share your first one."`;
     } else if (action === "delete") {
       instructions = `Help me delete an Inflight prototype. First call \`prototype_list\` to show my prototypes. Ask which one to delete. Confirm with "Delete [name]? This can't be undone." Then call \`prototype_delete\` with the sandbox ID.`;
     } else if (action === "projects") {
@@ -1459,6 +4092,16 @@ async function main() {
   await server.connect(transport);
 
   console.error("[Inflight] Ready");
+
+  // Validate INFLIGHT_API_KEY up front so a bad key is reported before the first share
+  const envValidation = await validateEnvCredentials();
+  if (envValidation) {
+    if (envValidation.valid) {
+      await log(`Using INFLIGHT_API_KEY for ${envValidation.owner.email || envValidation.owner.userId}`);
+    } else {
+      await log(`INFLIGHT_API_KEY is set but invalid: ${envValidation.error}`, "error");
+    }
+  }
 }
 
 main().catch((error) => {
@@ -0,0 +1,33 @@
+/**
+ * Concurrency Utilities
+ */
+
+/**
+ * Run a worker over items with at most `limit` running at once.
+ * After the first failure no new items are started; the error is thrown
+ * once the ones already running have settled.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        await worker(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  });
+
+  await Promise.all(runners);
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+}
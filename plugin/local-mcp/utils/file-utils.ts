@@ -7,10 +7,16 @@
 
 import * as fs from "fs";
 import * as path from "path";
+import { createIgnoreMatcher } from "./ignore-rules.js";
 
 export interface FileContent {
   content: string;
   encoding: "utf-8" | "base64";
+  /**
+   * Set when a file too large for one chunk is split across chunks.
+   * The server joins parts in index order; base64 parts decode on their own.
+   */
+  part?: { index: number; total: number };
 }
 
 export interface FileMap {
@@ -126,10 +132,36 @@ export function getFileContent(file: string | FileContent): string {
 }
 
 /**
- * Get the byte size of a file entry
+ * Get the byte size of a file entry's content as sent (UTF-8 bytes, or base64 characters)
  */
 export function getFileSize(file: string | FileContent): number {
-  return getFileContent(file).length;
+  return Buffer.byteLength(getFileContent(file), "utf-8");
+}
+
+/**
+ * Bytes a file entry adds to a JSON request body: the quoted and escaped
+ * path and content, plus separators
+ */
+export function getSerializedSize(filePath: string, file: string | FileContent): number {
+  return Buffer.byteLength(JSON.stringify(filePath), "utf-8") + 1 +
+    Buffer.byteLength(JSON.stringify(file), "utf-8") + 1;
+}
+
+/**
+ * Bytes one character adds inside a JSON string (escapes and UTF-8 encoding)
+ */
+function jsonCharSize(char: string): number {
+  const code = char.codePointAt(0)!;
+  if (char === '"' || char === "\\" || char === "\n" || char === "\r" || char === "\t" || char === "\b" || char === "\f") {
+    return 2;
+  }
+  if (code < 0x20 || (code >= 0xd800 && code <= 0xdfff)) {
+    return 6; // \uXXXX (control characters and lone surrogates)
+  }
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
 }
 
 // File patterns to exclude
@@ -171,24 +203,50 @@ const EXCLUDE_PATTERNS = [
 // Env files - excluded for security
 const ENV_PATTERNS = [/^\.env/, /\.env\./];
 
-function shouldExclude(filePath: string): boolean {
-  if (EXCLUDE_PATTERNS.some(pattern => pattern.test(filePath))) {
-    return true;
+/**
+ * Record of what a read skipped or encoded, for upload previews.
+ * Excluded directories are recorded once (with a trailing slash), not per file.
+ */
+export interface ReadReport {
+  excluded: Array<{ path: string; rule: string }>;
+  binary: Array<{ path: string; detectedBy: "extension" | "content" }>;
+}
+
+export function createReadReport(): ReadReport {
+  return { excluded: [], binary: [] };
+}
+
+/**
+ * Get the rule that excludes a path, or null if it should be uploaded.
+ * Directory paths should be passed with a trailing slash.
+ */
+export function getExclusionRule(filePath: string): string | null {
+  const excludePattern = EXCLUDE_PATTERNS.find(pattern => pattern.test(filePath));
+  if (excludePattern) {
+    return `EXCLUDE_PATTERNS ${excludePattern}`;
   }
-  const fileName = filePath.split('/').pop() || '';
-  if (ENV_PATTERNS.some(pattern => pattern.test(fileName))) {
-    return true;
+  const fileName = filePath.replace(/\/$/, '').split('/').pop() || '';
+  const envPattern = ENV_PATTERNS.find(pattern => pattern.test(fileName));
+  if (envPattern) {
+    return `ENV_PATTERNS ${envPattern}`;
   }
-  return false;
+  return null;
 }
 
 /**
  * Read all project files recursively, properly handling binary files.
  * Binary files are encoded as base64, text files are read as UTF-8.
  * Uses both extension-based and content-based detection for binary files.
+ * Honors .gitignore and .inflightignore files on top of the built-in excludes.
+ * Pass a ReadReport to collect excluded paths (with the matching rule) and binary detections.
  */
-export function readProjectFiles(rootDir: string, debug: boolean = false): FileMap {
+export function readProjectFiles(
+  rootDir: string,
+  debug: boolean = false,
+  report?: ReadReport
+): FileMap {
   const files: FileMap = {};
+  const ignore = createIgnoreMatcher(rootDir);
   let binaryCount = 0;
   let textCount = 0;
 
@@ -204,8 +262,6 @@ export function readProjectFiles(rootDir: string, debug: boolean = false): FileM
       const fullPath = path.join(dir, entry);
       const relativePath = path.relative(rootDir, fullPath);
 
-      if (shouldExclude(relativePath)) continue;
-
       let stat: fs.Stats;
       try {
         stat = fs.statSync(fullPath);
@@ -213,6 +269,15 @@ export function readProjectFiles(rootDir: string, debug: boolean = false): FileM
         continue;
       }
 
+      // Directories are matched with a trailing slash so excluded trees
+      // (node_modules/, dist/, ...) are skipped without walking them
+      const matchPath = stat.isDirectory() ? `${relativePath}/` : relativePath;
+      const exclusionRule = getExclusionRule(matchPath) || ignore.match(relativePath, stat.isDirectory());
+      if (exclusionRule) {
+        report?.excluded.push({ path: matchPath, rule: exclusionRule });
+        continue;
+      }
+
       if (stat.isDirectory()) {
         walkDir(fullPath);
       } else if (stat.isFile()) {
@@ -229,6 +294,7 @@ export function readProjectFiles(rootDir: string, debug: boolean = false): FileM
             const content = buffer.toString("base64");
             files[relativePath] = { content, encoding: "base64" };
             binaryCount++;
+            report?.binary.push({ path: relativePath, detectedBy: isBinaryByExt ? "extension" : "content" });
             if (debug && isBinaryByContent && !isBinaryByExt) {
               console.error(`[file-utils] Detected binary by content: ${relativePath}`);
             }
@@ -259,8 +325,14 @@ export function readProjectFiles(rootDir: string, debug: boolean = false): FileM
 // Chunking configuration
 // Vercel serverless functions have a 4.5MB request body limit
 // We use chunked uploads for anything over 3MB to be safe
+// All sizes are serialized JSON bytes, not string lengths
+export const MAX_REQUEST_SIZE = 4.5 * 1024 * 1024; // Hard limit for any single request body
 export const MAX_CHUNK_SIZE = 2 * 1024 * 1024; // 2MB per chunk (safe margin under 4.5MB limit)
 export const CHUNK_THRESHOLD = 3 * 1024 * 1024; // 3MB - when to switch to chunked mode
+export const MAX_FILE_SIZE = 50 * 1024 * 1024; // Largest single file the server will reassemble from parts
+
+// Room for the rest of a chunk request: {"files":{...},"chunkIndex":N,"totalChunks":N}
+const CHUNK_ENVELOPE_SIZE = 128;
 
 /**
  * Calculate total size of all files in bytes
@@ -270,20 +342,78 @@ export function calculateTotalSize(files: FileMap): number {
 }
 
 /**
- * Check if chunked upload is needed based on total file size
+ * Size of the files as a serialized JSON object, in bytes
  */
-export function needsChunkedUpload(files: FileMap): boolean {
-  return calculateTotalSize(files) > CHUNK_THRESHOLD;
+export function calculateSerializedSize(files: FileMap): number {
+  return Object.entries(files).reduce((sum, [filePath, file]) => sum + getSerializedSize(filePath, file), 2);
+}
+
+/**
+ * Check if chunked upload is needed based on the serialized request size.
+ * Pass extraBytes for the rest of the request body (e.g. the git diff).
+ */
+export function needsChunkedUpload(files: FileMap, extraBytes: number = 0): boolean {
+  return calculateSerializedSize(files) + extraBytes > CHUNK_THRESHOLD;
+}
+
+/**
+ * Files that can't be uploaded even when split into parts
+ */
+export function findOversizedFiles(files: FileMap, maxFileSize: number = MAX_FILE_SIZE): Array<{ path: string; bytes: number }> {
+  return Object.entries(files)
+    .map(([filePath, file]) => ({ path: filePath, bytes: getFileSize(file) }))
+    .filter((file) => file.bytes > maxFileSize);
+}
+
+/**
+ * Split a file into parts whose serialized size fits maxPartSize.
+ * Base64 content is split on 4-character boundaries so each part decodes
+ * on its own; text is split between characters, never inside one.
+ */
+function splitFile(filePath: string, file: string | FileContent, maxPartSize: number): FileContent[] {
+  const encoding = isFileContent(file) ? file.encoding : "utf-8";
+  const content = getFileContent(file);
+  // Room for the path, quotes, the part marker and the encoding field
+  const budget = maxPartSize - getSerializedSize(filePath, { content: "", encoding, part: { index: 99999, total: 99999 } });
+  const pieces: string[] = [];
+
+  if (encoding === "base64") {
+    const partLength = Math.max(4, Math.floor(budget / 4) * 4);
+    for (let i = 0; i < content.length; i += partLength) {
+      pieces.push(content.slice(i, i + partLength));
+    }
+  } else {
+    let start = 0;
+    let size = 0;
+    let i = 0;
+    for (const char of content) {
+      const charSize = jsonCharSize(char);
+      if (size + charSize > budget && i > start) {
+        pieces.push(content.slice(start, i));
+        start = i;
+        size = 0;
+      }
+      size += charSize;
+      i += char.length;
+    }
+    pieces.push(content.slice(start));
+  }
+
+  return pieces.map((piece, index) => ({
+    content: piece,
+    encoding,
+    part: { index, total: pieces.length },
+  }));
 }
 
 /**
- * Split files into chunks that fit within the size limit.
+ * Split files into chunks whose serialized request size fits the limit.
  * Each chunk is a FileMap containing a subset of files.
  *
  * Algorithm:
- * - Sorts files by size (smallest first) for better packing
+ * - Sorts files by serialized size (smallest first) for better packing
  * - Greedily adds files to current chunk until size limit reached
- * - Files larger than max chunk size get their own chunk
+ * - Files larger than max chunk size are split into parts, one chunk each
  */
 export function chunkFiles(
   files: FileMap,
@@ -291,42 +421,36 @@ export function chunkFiles(
 ): FileMap[] {
   const chunks: FileMap[] = [];
   let currentChunk: FileMap = {};
-  let currentSize = 0;
+  let currentSize = CHUNK_ENVELOPE_SIZE;
+  const maxEntrySize = maxChunkSize - CHUNK_ENVELOPE_SIZE;
 
   // Sort files by size (smallest first) for better packing
-  const entries = Object.entries(files).sort(
-    (a, b) => getFileSize(a[1]) - getFileSize(b[1])
-  );
-
-  for (const [filePath, file] of entries) {
-    const fileSize = getFileSize(file);
-
-    // If this single file is larger than max chunk size, it gets its own chunk
-    if (fileSize > maxChunkSize) {
-      // Save current chunk if not empty
-      if (Object.keys(currentChunk).length > 0) {
-        chunks.push(currentChunk);
-        currentChunk = {};
-        currentSize = 0;
+  const entries = Object.entries(files)
+    .map(([filePath, file]) => ({ filePath, file, size: getSerializedSize(filePath, file) }))
+    .sort((a, b) => a.size - b.size);
+
+  for (const { filePath, file, size } of entries) {
+    // If this single file is larger than max chunk size, split it into parts
+    if (size > maxEntrySize) {
+      for (const part of splitFile(filePath, file, maxEntrySize)) {
+        chunks.push({ [filePath]: part });
       }
-      // Add large file as its own chunk
-      chunks.push({ [filePath]: file });
       continue;
     }
 
     // If adding this file would exceed the limit, start a new chunk
     if (
-      currentSize + fileSize > maxChunkSize &&
+      currentSize + size > maxChunkSize &&
       Object.keys(currentChunk).length > 0
     ) {
       chunks.push(currentChunk);
       currentChunk = {};
-      currentSize = 0;
+      currentSize = CHUNK_ENVELOPE_SIZE;
     }
 
     // Add file to current chunk
     currentChunk[filePath] = file;
-    currentSize += fileSize;
+    currentSize += size;
   }
 
   // Don't forget the last chunk
@@ -347,10 +471,8 @@ export function getChunkStats(chunks: FileMap[]): {
   totalSize: number;
 } {
   const chunkSizes = chunks.map((chunk) => calculateTotalSize(chunk));
-  const totalFiles = chunks.reduce(
-    (sum, chunk) => sum + Object.keys(chunk).length,
-    0
-  );
+  // Files split into parts span several chunks but count once
+  const totalFiles = new Set(chunks.flatMap((chunk) => Object.keys(chunk))).size;
   const totalSize = chunkSizes.reduce((sum, size) => sum + size, 0);
 
   return {
@@ -364,7 +486,7 @@ export function getChunkStats(chunks: FileMap[]): {
 /**
  * Essential config files that should always be included if they exist
  */
-const ESSENTIAL_CONFIG_FILES = [
+export const ESSENTIAL_CONFIG_FILES = [
   "package.json",
   "tsconfig.json",
   "jsconfig.json",
@@ -390,19 +512,23 @@ const ESSENTIAL_CONFIG_FILES = [
 /**
  * Read only specific files from a project directory.
  * Use this after dependency analysis to read only the files that are needed.
+ * Paths ignored by .gitignore or .inflightignore are skipped like in readProjectFiles.
  *
  * @param rootDir The root directory of the project
  * @param filePaths Array of relative file paths to read
  * @param includeEssentials Whether to automatically include essential config files
  * @param debug Enable debug logging
+ * @param report Optional report collecting excluded paths and binary detections
  */
 export function readSpecificFiles(
   rootDir: string,
   filePaths: string[],
   includeEssentials: boolean = true,
-  debug: boolean = false
+  debug: boolean = false,
+  report?: ReadReport
 ): FileMap {
   const files: FileMap = {};
+  const ignore = createIgnoreMatcher(rootDir);
   let binaryCount = 0;
   let textCount = 0;
   let notFoundCount = 0;
@@ -422,7 +548,9 @@ export function readSpecificFiles(
 
   for (const relativePath of pathsToRead) {
     // Skip excluded paths
-    if (shouldExclude(relativePath)) {
+    const exclusionRule = getExclusionRule(relativePath) || ignore.match(relativePath, false);
+    if (exclusionRule) {
+      report?.excluded.push({ path: relativePath, rule: exclusionRule });
       if (debug) {
         console.error(`[file-utils] Excluded: ${relativePath}`);
       }
@@ -453,6 +581,7 @@ export function readSpecificFiles(
         const content = buffer.toString("base64");
         files[relativePath] = { content, encoding: "base64" };
         binaryCount++;
+        report?.binary.push({ path: relativePath, detectedBy: isBinaryByExt ? "extension" : "content" });
         if (debug && isBinaryByContent && !isBinaryByExt) {
           console.error(`[file-utils] Detected binary by content: ${relativePath}`);
         }
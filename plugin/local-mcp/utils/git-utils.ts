@@ -1,18 +1,60 @@
 /**
  * Git utilities for collecting repository information during share/deploy operations.
  * Used to track which branch/commit a shared prototype was created from.
+ *
+ * Every command runs through execFile with an argument list, never a shell
+ * string, so branch names and refs can't be interpreted by a shell. Commands
+ * are async so long diffs don't block the MCP event loop (and its progress
+ * notifications). Remote URLs are sanitized before they leave the machine.
  */
 
-import { execSync, execFileSync } from "child_process";
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+// Diffs larger than this fail rather than being cut off mid-hunk
+const MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+// Commands that talk to the remote give up after this long
+const REMOTE_TIMEOUT_MS = 15_000;
+
+// Fetching a pull request downloads its objects, so it gets longer
+const FETCH_TIMEOUT_MS = 120_000;
+
+// git's well-known empty tree, the "parent" of a root commit
+const EMPTY_TREE_SHA = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+/**
+ * How the base branch was chosen: given by the caller, the current branch's
+ * upstream (when it isn't the same-named remote branch), the remote's default
+ * branch (origin/HEAD), git's init.defaultBranch, an existing main or master,
+ * or nothing found and "main" assumed
+ */
+export type BaseBranchSource = "override" | "upstream" | "origin-head" | "init-default-branch" | "main-master" | "fallback";
+
+export interface BaseBranchChoice {
+  /** Branch name without the remote (e.g. "develop") */
+  branch: string;
+  /** Ref to diff against (e.g. "origin/develop", or "develop" if it only exists locally) */
+  ref: string;
+  source: BaseBranchSource;
+}
 
 export interface GitInfo {
-  branch: string | null;
-  commitShort: string | null;
-  commitFull: string | null;
-  commitMessage: string | null;
-  remoteUrl: string | null;
-  isDirty: boolean;
-  timestamp: string | null;
+  isGitRepo: boolean;
+  currentBranch?: string;
+  commitSha?: string;
+  baseBranch?: string;
+  baseBranchSource?: BaseBranchSource;
+  /** origin remote, sanitized (host/path, no credentials) */
+  gitUrl?: string;
+  diff?: string;
+  diffStat?: string;
+  branchExistsOnRemote?: boolean;
 }
 
 export interface GitDiffResult {
@@ -26,33 +68,103 @@ export interface GitDiffResult {
 }
 
 /**
- * Execute a git command and return the output, or null if it fails.
+ * Thrown when a requested ref, commit or pull request can't be resolved.
+ * The message is meant for the user.
+ */
+export class GitRefError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitRefError";
+  }
+}
+
+/**
+ * What to share instead of the working directory: a range of commits, one
+ * commit, or a pull request. Only one of commit, pullRequest and fromRef/toRef.
+ */
+export interface ShareRangeRequest {
+  /** Start of the range (default: merge base of toRef with the base branch) */
+  fromRef?: string;
+  /** End of the range (default: HEAD) */
+  toRef?: string;
+  /** Share just this commit, diffed against its parent */
+  commit?: string;
+  /** Pull request number, fetched from origin's refs/pull/<n>/head */
+  pullRequest?: number;
+  /** Base branch for ranges without a fromRef (default: detected; for pull requests, origin's default branch) */
+  baseBranch?: string;
+}
+
+export interface ShareRange {
+  /** e.g. "pull request #12", "v1.0..v1.1", "commit abc1234" */
+  description: string;
+  fromRef: string;
+  fromSha: string;
+  toRef: string;
+  toSha: string;
+  pullRequest?: number;
+}
+
+/**
+ * A checkout of one commit outside the working directory
  */
-function gitExec(command: string, cwd: string): string | null {
+export interface TemporaryWorktree {
+  path: string;
+  remove(): Promise<void>;
+}
+
+export interface GitCommandOptions {
+  /** Kill git after this long (default: no limit) */
+  timeoutMs?: number;
+}
+
+/**
+ * Run git with an argument list and return its raw stdout. Throws if git fails.
+ */
+export async function runGit(args: string[], cwd: string, options: GitCommandOptions = {}): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd,
+    encoding: "utf-8",
+    maxBuffer: MAX_OUTPUT_BYTES,
+    timeout: options.timeoutMs ?? 0,
+    // Fail instead of waiting for credentials nobody can type in
+    env: { ...process.env, GIT_TERMINAL_PROMPT: "0" },
+  });
+  return stdout;
+}
+
+/**
+ * Run git and return its trimmed output, or null if it fails.
+ */
+export async function gitExec(args: string[], cwd: string, options: GitCommandOptions = {}): Promise<string | null> {
   try {
-    return execSync(command, {
-      cwd,
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-    }).trim();
+    return (await runGit(args, cwd, options)).trim();
   } catch {
     return null;
   }
 }
 
+/**
+ * Refs are passed as arguments; one starting with "-" would be read as an option
+ */
+function assertRefName(ref: string): void {
+  if (ref.startsWith("-")) {
+    throw new GitRefError(`Invalid branch or ref name: ${ref}`);
+  }
+}
+
 /**
  * Check if a directory is inside a git repository.
  */
-export function isGitRepo(projectPath: string): boolean {
-  const result = gitExec("git rev-parse --is-inside-work-tree", projectPath);
-  return result === "true";
+export async function isGitRepo(projectPath: string): Promise<boolean> {
+  return (await gitExec(["rev-parse", "--is-inside-work-tree"], projectPath)) === "true";
 }
 
 /**
  * Check if the repository has uncommitted changes (staged or unstaged).
  */
-export function hasUncommittedChanges(projectPath: string): boolean {
-  const status = gitExec("git status --porcelain", projectPath);
+export async function hasUncommittedChanges(projectPath: string): Promise<boolean> {
+  const status = await gitExec(["status", "--porcelain"], projectPath);
   return status !== null && status.length > 0;
 }
 
@@ -61,89 +173,188 @@ export function hasUncommittedChanges(projectPath: string): boolean {
  * Converts URLs like:
  *   https://token@github.com/org/repo.git → github.com/org/repo
  *   git@github.com:org/repo.git → github.com/org/repo
+ *   ssh://git@host:2222/org/repo → host:2222/org/repo
  */
-export function sanitizeRemoteUrl(url: string | null): string | null {
+export function sanitizeRemoteUrl(url: string | null | undefined): string | null {
   if (!url) return null;
 
   // Remove .git suffix
-  let cleaned = url.replace(/\.git$/, "");
+  const cleaned = url.trim().replace(/\/$/, "").replace(/\.git$/, "");
 
-  // Handle SSH URLs (git@github.com:org/repo)
-  if (cleaned.startsWith("git@")) {
-    cleaned = cleaned.replace(/^git@/, "").replace(":", "/");
-    return cleaned;
+  // Handle scp-style SSH URLs ([user@]host:org/repo)
+  const scpLike = /^[a-z][a-z0-9+.-]*:\/\//i.test(cleaned) ? null : cleaned.match(/^(?:[^@/]+@)?([^:/]+):(.+)$/);
+  if (scpLike) {
+    return `${scpLike[1]}/${scpLike[2].replace(/^\/+/, "")}`;
   }
 
-  // Handle HTTPS URLs - extract host and path
+  // Handle URLs with a scheme - keep host and path, drop userinfo
   try {
     const parsed = new URL(cleaned);
     return `${parsed.host}${parsed.pathname}`;
   } catch {
     // If URL parsing fails, return as-is without credentials
-    return cleaned.replace(/^https?:\/\/[^@]+@/, "").replace(/^https?:\/\//, "");
+    return cleaned.replace(/^[a-z][a-z0-9+.-]*:\/\/[^@/]+@/i, "").replace(/^[a-z][a-z0-9+.-]*:\/\//i, "");
   }
 }
 
 /**
- * Collect git repository information from a project directory.
- * Returns null if not a git repository.
+ * Name of the checked-out branch, or null (detached HEAD or not a repo).
  */
-export function getGitInfo(projectPath: string): GitInfo | null {
-  if (!isGitRepo(projectPath)) {
-    return null;
-  }
+export async function getCurrentBranch(projectPath: string): Promise<string | null> {
+  return (await gitExec(["branch", "--show-current"], projectPath)) || null;
+}
 
-  const branch = gitExec("git rev-parse --abbrev-ref HEAD", projectPath);
-  const commitShort = gitExec("git rev-parse --short HEAD", projectPath);
-  const commitFull = gitExec("git rev-parse HEAD", projectPath);
-  const commitMessage = gitExec("git log -1 --format=%s", projectPath);
-  const rawRemoteUrl = gitExec("git remote get-url origin", projectPath);
-  const timestamp = gitExec("git log -1 --format=%cI", projectPath);
-  const isDirty = hasUncommittedChanges(projectPath);
+async function refExists(ref: string, projectPath: string): Promise<boolean> {
+  return (await gitExec(["show-ref", "--verify", "--quiet", ref], projectPath)) !== null;
+}
 
-  return {
-    branch,
-    commitShort,
-    commitFull,
-    commitMessage,
-    remoteUrl: sanitizeRemoteUrl(rawRemoteUrl),
-    isDirty,
-    timestamp,
-  };
+/**
+ * A branch as a ref to diff against: the local branch if it exists, else origin's
+ */
+async function resolveBranchRef(branch: string, projectPath: string): Promise<string | null> {
+  if (await refExists(`refs/heads/${branch}`, projectPath)) return branch;
+  if (await refExists(`refs/remotes/origin/${branch}`, projectPath)) return `origin/${branch}`;
+  return null;
 }
 
 /**
- * Get the default branch name (main or master).
- * Returns null if no default branch can be determined.
+ * Work out which branch the current branch should be compared against.
+ * Returns null if no candidate exists (e.g. a fresh repo with one branch).
  */
-export function getDefaultBranch(projectPath: string): string | null {
-  if (!isGitRepo(projectPath)) {
-    return null;
+export async function detectBaseBranch(projectPath: string, currentBranch?: string | null): Promise<BaseBranchChoice | null> {
+  // An upstream other than the branch's own remote copy, e.g. `git checkout -b fix --track origin/develop`
+  if (currentBranch) {
+    const upstream = await gitExec(
+      ["for-each-ref", "--format=%(upstream)%09%(upstream:short)%09%(upstream:remotename)", `refs/heads/${currentBranch}`],
+      projectPath
+    );
+    const [fullRef, shortRef, remote] = (upstream || "").split("\t");
+    if (fullRef && shortRef) {
+      // A local upstream has remotename "." and lives under refs/heads/
+      const prefix = remote && remote !== "." ? `refs/remotes/${remote}/` : "refs/heads/";
+      const branch = fullRef.startsWith(prefix) ? fullRef.slice(prefix.length) : shortRef;
+      if (branch !== currentBranch) {
+        return { branch, ref: shortRef, source: "upstream" };
+      }
+    }
   }
 
-  // Try 'main' first, then 'master'
-  const branches = ["main", "master"];
-  for (const branch of branches) {
-    const result = gitExec(`git rev-parse --verify ${branch}`, projectPath);
-    if (result !== null) {
-      return branch;
+  // The remote's default branch
+  const originHead = await gitExec(["symbolic-ref", "--short", "refs/remotes/origin/HEAD"], projectPath);
+  if (originHead) {
+    const branch = originHead.replace(/^origin\//, "");
+    return { branch, ref: (await resolveBranchRef(branch, projectPath)) || originHead, source: "origin-head" };
+  }
+
+  // The default branch name git is configured to create
+  const initDefault = await gitExec(["config", "--get", "init.defaultBranch"], projectPath);
+  if (initDefault && !initDefault.startsWith("-")) {
+    const ref = await resolveBranchRef(initDefault, projectPath);
+    if (ref) {
+      return { branch: initDefault, ref, source: "init-default-branch" };
     }
   }
 
-  // Fallback: check origin/HEAD
-  const originHead = gitExec(
-    "git symbolic-ref refs/remotes/origin/HEAD",
-    projectPath
-  );
-  if (originHead) {
-    return originHead.replace("refs/remotes/origin/", "");
+  // Try 'main' first, then 'master'
+  for (const branch of ["main", "master"]) {
+    const ref = await resolveBranchRef(branch, projectPath);
+    if (ref) {
+      return { branch, ref, source: "main-master" };
+    }
   }
 
   return null;
 }
 
 /**
- * Get git diff between current branch and base branch (main/master by default).
+ * Diff and diffstat for a target (a range, or HEAD for uncommitted changes).
+ * Throws if git fails, including when the diff is over MAX_OUTPUT_BYTES.
+ */
+async function diffAgainst(target: string, dir: string): Promise<{ diff: string; diffStat: string }> {
+  try {
+    // "--" keeps a branch name from being read as an option or a path
+    const diff = await runGit(["diff", target, "--"], dir);
+    const diffStat = await runGit(["diff", "--stat", target, "--"], dir);
+    return { diff, diffStat };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_CHILD_PROCESS_STDIO_MAXBUFFER") {
+      throw new Error(`The diff against ${target} is over ${MAX_OUTPUT_BYTES / (1024 * 1024)} MB. Commit or stash unrelated changes, or pass a closer base branch.`);
+    }
+    const detail = error instanceof Error ? error.message.split("\n").find((line) => line.startsWith("fatal:")) : undefined;
+    throw new Error(`Couldn't diff against ${target}${detail ? ` (${detail})` : ""}`);
+  }
+}
+
+/**
+ * Collect what a share needs from a project directory: branch, commit, sanitized
+ * remote, and the diff against the base branch.
+ * Pass baseBranchOverride to diff against it instead of detecting the base;
+ * throws GitRefError if that branch doesn't exist.
+ */
+export async function getGitInfo(dir: string, baseBranchOverride?: string): Promise<GitInfo> {
+  if (baseBranchOverride) {
+    assertRefName(baseBranchOverride);
+  }
+  if (await gitExec(["rev-parse", "--git-dir"], dir) === null) {
+    return { isGitRepo: false };
+  }
+
+  const [currentBranch, commitSha, rawRemoteUrl] = await Promise.all([
+    gitExec(["branch", "--show-current"], dir),
+    gitExec(["rev-parse", "HEAD"], dir),
+    gitExec(["remote", "get-url", "origin"], dir),
+  ]);
+  if (currentBranch === null) {
+    return { isGitRepo: true };
+  }
+
+  // Determine base branch unless one was given
+  const base: BaseBranchChoice = baseBranchOverride
+    ? { branch: baseBranchOverride, ref: baseBranchOverride, source: "override" }
+    : (await detectBaseBranch(dir, currentBranch)) || { branch: "main", ref: "main", source: "fallback" };
+
+  // Get diff against base branch
+  // Try the detected ref, then the local branch, then the remote tracking branch
+  // (handles worktree/stale local main); without any, fall back to uncommitted changes
+  let diff = "";
+  let diffStat = "";
+  let baseFound = false;
+  for (const ref of new Set([base.ref, base.branch, `origin/${base.branch}`])) {
+    if (await gitExec(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`], dir) === null) {
+      continue;
+    }
+    baseFound = true;
+    ({ diff, diffStat } = await diffAgainst(`${ref}...HEAD`, dir));
+    if (diff) break;
+  }
+  if (!baseFound && base.source === "override") {
+    // A base the caller named must exist; uncommitted changes alone would be a misleading share
+    throw new GitRefError(`Couldn't find base branch "${base.branch}" locally or on origin. Check the name, or fetch it first.`);
+  }
+  if (!diff) {
+    ({ diff, diffStat } = await diffAgainst("HEAD", dir));
+  }
+
+  // Check if the current branch exists on the remote
+  const lsRemoteOutput = currentBranch && rawRemoteUrl
+    ? await gitExec(["ls-remote", "--heads", "origin", `refs/heads/${currentBranch}`], dir, { timeoutMs: REMOTE_TIMEOUT_MS })
+    : null;
+
+  return {
+    isGitRepo: true,
+    currentBranch,
+    commitSha: commitSha || undefined,
+    baseBranch: base.branch,
+    baseBranchSource: base.source,
+    gitUrl: sanitizeRemoteUrl(rawRemoteUrl) || undefined,
+    diff,
+    diffStat,
+    branchExistsOnRemote: Boolean(lsRemoteOutput),
+  };
+}
+
+/**
+ * Get git diff between current branch and base branch (detected by default).
  * Returns null if not in a git repo, on the default branch, or no changes.
  *
  * @param projectPath - The project directory
@@ -151,41 +362,39 @@ export function getDefaultBranch(projectPath: string): string | null {
  * @param baseBranch - Base branch to diff against (auto-detected if not provided)
  * @returns GitDiffResult or null if no diff available
  */
-export function getGitDiff(
+export async function getGitDiff(
   projectPath: string,
   maxBytes: number = 50000,
   baseBranch?: string
-): GitDiffResult | null {
-  if (!isGitRepo(projectPath)) {
+): Promise<GitDiffResult | null> {
+  if (!(await isGitRepo(projectPath))) {
     return null;
   }
 
-  const defaultBranch = baseBranch || getDefaultBranch(projectPath);
+  const currentBranch = await gitExec(["rev-parse", "--abbrev-ref", "HEAD"], projectPath);
+  const detected = baseBranch ? null : await detectBaseBranch(projectPath, currentBranch);
+  const defaultBranch = baseBranch || detected?.branch;
   if (!defaultBranch) {
     return null;
   }
+  assertRefName(defaultBranch);
 
-  const currentBranch = gitExec("git rev-parse --abbrev-ref HEAD", projectPath);
   if (!currentBranch || currentBranch === defaultBranch) {
     // On the default branch, no diff to compare
     return null;
   }
 
   // Get the merge base to compare against
-  const mergeBase = gitExec(
-    `git merge-base ${defaultBranch} HEAD`,
-    projectPath
-  );
+  const mergeBase = await gitExec(["merge-base", detected?.ref || defaultBranch, "HEAD"], projectPath);
   if (!mergeBase) {
     return null;
   }
 
   // Get diff stat for summary
-  const diffStat =
-    gitExec(`git diff --stat ${mergeBase}...HEAD`, projectPath) || "";
+  const diffStat = (await gitExec(["diff", "--stat", `${mergeBase}...HEAD`, "--"], projectPath)) || "";
 
   // Get actual diff
-  const diff = gitExec(`git diff ${mergeBase}...HEAD`, projectPath);
+  const diff = await gitExec(["diff", `${mergeBase}...HEAD`, "--"], projectPath);
 
   if (!diff || diff.length === 0) {
     return null;
@@ -215,38 +424,206 @@ export function getGitDiff(
  * @param inflightVersionId - The Inflight version ID for the commit message
  * @returns The new short commit SHA, or null if commit failed
  */
-export function autoCommitForShare(
+export async function autoCommitForShare(
   projectPath: string,
   inflightVersionId: string
-): string | null {
-  if (!isGitRepo(projectPath)) {
+): Promise<string | null> {
+  if (!(await isGitRepo(projectPath))) {
     return null;
   }
 
-  if (!hasUncommittedChanges(projectPath)) {
+  if (!(await hasUncommittedChanges(projectPath))) {
     // No changes to commit
     return null;
   }
 
   try {
     // Stage all changes
-    execSync("git add -A", {
-      cwd: projectPath,
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-    });
+    await runGit(["add", "-A"], projectPath);
 
     // Commit with Inflight share message
-    const commitMessage = `Inflight share: ${inflightVersionId}`;
-    execFileSync("git", ["commit", "-m", commitMessage], {
-      cwd: projectPath,
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"],
-    });
+    await runGit(["commit", "-m", `Inflight share: ${inflightVersionId}`], projectPath);
 
     // Return the new commit SHA
-    return gitExec("git rev-parse --short HEAD", projectPath);
+    return await gitExec(["rev-parse", "--short", "HEAD"], projectPath);
   } catch {
     return null;
   }
 }
+
+/**
+ * Resolve a ref to a full commit SHA
+ */
+async function resolveCommit(ref: string, projectPath: string): Promise<string> {
+  assertRefName(ref);
+  const sha = await gitExec(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`], projectPath);
+  if (!sha) {
+    throw new GitRefError(`Couldn't find "${ref}" in this repo. Fetch it first if it only exists on the remote.`);
+  }
+  return sha;
+}
+
+/**
+ * Merge base of a commit with the base branch, for ranges that start "where the branch forked"
+ */
+async function forkPoint(
+  toSha: string,
+  projectPath: string,
+  base: { branch: string; ref: string }
+): Promise<{ ref: string; sha: string }> {
+  assertRefName(base.ref);
+  const sha = await gitExec(["merge-base", base.ref, toSha], projectPath);
+  if (!sha) {
+    throw new GitRefError(`${base.ref} has no history in common with ${toSha.slice(0, 7)}. Pass fromRef to choose where the range starts.`);
+  }
+  return { ref: base.branch, sha };
+}
+
+/**
+ * Base branch for a range ending somewhere other than the checked-out branch.
+ * The checked-out branch's upstream says nothing about it, so that isn't consulted.
+ */
+async function rangeBaseBranch(projectPath: string, baseBranch?: string): Promise<{ branch: string; ref: string }> {
+  const base = baseBranch
+    ? { branch: baseBranch, ref: (await resolveBranchRef(baseBranch, projectPath)) || baseBranch }
+    : await detectBaseBranch(projectPath);
+  if (!base) {
+    throw new GitRefError("Couldn't work out the base branch. Pass fromRef or baseBranch.");
+  }
+  return base;
+}
+
+/**
+ * The default branch origin reports right now, falling back to what's known locally
+ */
+async function remoteDefaultBranch(projectPath: string): Promise<string | null> {
+  const symref = await gitExec(["ls-remote", "--symref", "origin", "HEAD"], projectPath, { timeoutMs: REMOTE_TIMEOUT_MS });
+  const match = symref?.match(/^ref: refs\/heads\/(\S+)\tHEAD$/m);
+  if (match) {
+    return match[1];
+  }
+  return (await detectBaseBranch(projectPath))?.branch ?? null;
+}
+
+/**
+ * Turn a commit, pull request or from/to pair into the two commits to diff.
+ * Pull requests are fetched from origin (GitHub-style refs/pull/<n>/head) together
+ * with their base branch, and compared against their merge base with it.
+ */
+export async function resolveShareRange(projectPath: string, request: ShareRangeRequest): Promise<ShareRange> {
+  const modes = [request.commit, request.pullRequest, request.fromRef ?? request.toRef].filter((value) => value !== undefined);
+  if (modes.length !== 1) {
+    throw new GitRefError("Pass only one of commit, pullRequest, or fromRef/toRef.");
+  }
+
+  if (request.commit) {
+    const toSha = await resolveCommit(request.commit, projectPath);
+    const parent = await gitExec(["rev-parse", "--verify", "--quiet", `${toSha}^`], projectPath);
+    return {
+      description: `commit ${toSha.slice(0, 7)}`,
+      fromRef: parent ? `${request.commit}^` : "(root)",
+      fromSha: parent || EMPTY_TREE_SHA,
+      toRef: request.commit,
+      toSha,
+    };
+  }
+
+  if (request.pullRequest !== undefined) {
+    const number = request.pullRequest;
+    if (!Number.isInteger(number) || number <= 0) {
+      throw new GitRefError(`Invalid pull request number: ${number}`);
+    }
+    const baseBranch = request.baseBranch || (await remoteDefaultBranch(projectPath));
+    if (!baseBranch) {
+      throw new GitRefError(`Couldn't work out which branch pull request #${number} targets. Pass baseBranch.`);
+    }
+    assertRefName(baseBranch);
+
+    // The base is fetched alongside the head: a stale local copy would put
+    // commits merged since the PR was last rebased into its diff
+    try {
+      await runGit(
+        ["fetch", "--no-tags", "origin", `refs/pull/${number}/head`, `+refs/heads/${baseBranch}:refs/remotes/origin/${baseBranch}`],
+        projectPath,
+        { timeoutMs: FETCH_TIMEOUT_MS }
+      );
+    } catch (error) {
+      const detail = error instanceof Error ? error.message.split("\n").find((line) => line.startsWith("fatal:")) : undefined;
+      throw new GitRefError(`Couldn't fetch pull request #${number} and ${baseBranch} from origin${detail ? ` (${detail})` : ""}. Check the number, the base branch, and that origin is the repo it was opened against.`);
+    }
+    // FETCH_HEAD's first entry is the PR head; read it right away, no ref is left behind for it
+    const toSha = await resolveCommit("FETCH_HEAD", projectPath);
+    const from = await forkPoint(toSha, projectPath, { branch: baseBranch, ref: `refs/remotes/origin/${baseBranch}` });
+    return {
+      description: `pull request #${number}`,
+      fromRef: from.ref,
+      fromSha: from.sha,
+      toRef: `pull/${number}`,
+      toSha,
+      pullRequest: number,
+    };
+  }
+
+  const toRef = request.toRef || "HEAD";
+  const toSha = await resolveCommit(toRef, projectPath);
+  const from = request.fromRef
+    ? { ref: request.fromRef, sha: await resolveCommit(request.fromRef, projectPath) }
+    : await forkPoint(toSha, projectPath, await rangeBaseBranch(projectPath, request.baseBranch));
+  return {
+    description: `${from.ref}..${toRef}`,
+    fromRef: from.ref,
+    fromSha: from.sha,
+    toRef,
+    toSha,
+  };
+}
+
+/**
+ * Like getGitInfo, but for a resolved range instead of the checked-out branch.
+ * The range's end stands in for the branch; it never counts as pushed, so
+ * shares of a range always upload files.
+ */
+export async function getRangeGitInfo(dir: string, range: ShareRange): Promise<GitInfo> {
+  const [diff, diffStat, rawRemoteUrl] = await Promise.all([
+    runGit(["diff", range.fromSha, range.toSha, "--"], dir),
+    runGit(["diff", "--stat", range.fromSha, range.toSha, "--"], dir),
+    gitExec(["remote", "get-url", "origin"], dir),
+  ]);
+  return {
+    isGitRepo: true,
+    currentBranch: range.toRef,
+    commitSha: range.toSha,
+    baseBranch: range.fromRef,
+    gitUrl: sanitizeRemoteUrl(rawRemoteUrl) || undefined,
+    diff,
+    diffStat,
+    branchExistsOnRemote: false,
+  };
+}
+
+/**
+ * Check out a commit into a temporary directory (detached, sharing the repo's
+ * objects) so its files can be read without touching the working directory.
+ * Call remove() when done.
+ */
+export async function addTemporaryWorktree(projectPath: string, sha: string): Promise<TemporaryWorktree> {
+  assertRefName(sha);
+  const worktreePath = fs.mkdtempSync(path.join(os.tmpdir(), "inflight-share-"));
+  try {
+    await runGit(["worktree", "add", "--detach", "--quiet", worktreePath, sha], projectPath);
+  } catch (error) {
+    fs.rmSync(worktreePath, { recursive: true, force: true });
+    throw error;
+  }
+
+  return {
+    path: worktreePath,
+    remove: async () => {
+      if ((await gitExec(["worktree", "remove", "--force", worktreePath], projectPath)) === null) {
+        // Removing by hand leaves git's bookkeeping behind until pruned
+        fs.rmSync(worktreePath, { recursive: true, force: true });
+        await gitExec(["worktree", "prune"], projectPath);
+      }
+    },
+  };
+}
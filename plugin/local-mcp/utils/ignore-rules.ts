@@ -0,0 +1,304 @@
+/**
+ * Ignore Rules
+ *
+ * Applies the repository's .gitignore files (plus .git/info/exclude) and
+ * project-level .inflightignore files when reading files for upload.
+ *
+ * Follows gitignore semantics: rules in nested files apply relative to their
+ * directory, later rules override earlier ones, "!" re-includes, a leading or
+ * middle "/" anchors a pattern, a trailing "/" matches directories only, and
+ * nothing inside an ignored directory can be re-included.
+ *
+ * .inflightignore rules are applied after all .gitignore rules, so they can
+ * add extra excludes or re-include files git ignores.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export const INFLIGHT_IGNORE_FILE = ".inflightignore";
+
+interface IgnoreRule {
+  /** Compiled pattern, matched against paths relative to the rule's directory */
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  /** Absolute directory the rule applies to */
+  baseDir: string;
+  /** Human-readable origin, e.g. "packages/ui/.gitignore:3 storybook-static/" */
+  label: string;
+}
+
+export interface IgnoreMatcher {
+  /**
+   * Get the rule that ignores a path, or null if it isn't ignored.
+   * A path inside an ignored directory reports the directory's rule.
+   *
+   * @param relativePath Path relative to the matcher's root directory
+   * @param isDirectory Whether the path is a directory
+   */
+  match(relativePath: string, isDirectory: boolean): string | null;
+}
+
+/**
+ * Convert a glob in gitignore syntax to a regular expression body
+ */
+function globToRegexBody(glob: string): string {
+  let result = "";
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const atStart = i === 0;
+        const followedBySlash = glob[i + 2] === "/";
+        const atEnd = i + 2 === glob.length;
+        if (atStart && followedBySlash) {
+          // "**/foo" - foo in any directory
+          result += "(?:.*/)?";
+          i += 3;
+          continue;
+        }
+        if (glob[i - 1] === "/" && followedBySlash) {
+          // "a/**/b" - zero or more directories
+          result += "(?:.*/)?";
+          i += 3;
+          continue;
+        }
+        if (glob[i - 1] === "/" && atEnd) {
+          // "foo/**" - everything inside foo
+          result += ".*";
+          i += 2;
+          continue;
+        }
+        // Any other "**" behaves like "*"
+        result += "[^/]*";
+        i += 2;
+        continue;
+      }
+      result += "[^/]*";
+    } else if (char === "?") {
+      result += "[^/]";
+    } else if (char === "[") {
+      const close = glob.indexOf("]", i + 2);
+      if (close === -1) {
+        result += "\\[";
+      } else {
+        let cls = glob.slice(i + 1, close);
+        if (cls.startsWith("!")) {
+          cls = "^" + cls.slice(1);
+        }
+        result += `[${cls.replace(/\\/g, "\\\\")}]`;
+        i = close;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      i++;
+      result += glob[i].replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    } else {
+      result += char.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    }
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Parse one line of an ignore file into a rule (null for blanks and comments)
+ */
+function parseIgnoreLine(line: string, baseDir: string, label: string): IgnoreRule | null {
+  // Trailing spaces are ignored unless escaped
+  let pattern = line.replace(/(?<!\\)\s+$/, "");
+  if (!pattern || pattern.startsWith("#")) {
+    return null;
+  }
+
+  let negate = false;
+  if (pattern.startsWith("!")) {
+    negate = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) {
+    pattern = pattern.slice(1);
+  }
+
+  let dirOnly = false;
+  if (pattern.endsWith("/")) {
+    dirOnly = true;
+    pattern = pattern.slice(0, -1);
+  }
+  if (!pattern) {
+    return null;
+  }
+
+  // A slash at the start or in the middle anchors the pattern to baseDir
+  const anchored = pattern.includes("/");
+  if (pattern.startsWith("/")) {
+    pattern = pattern.slice(1);
+  }
+
+  const body = globToRegexBody(pattern);
+  const regex = new RegExp(`^${anchored ? "" : "(?:.*/)?"}${body}$`);
+
+  return { regex, negate, dirOnly, baseDir, label };
+}
+
+/**
+ * Match a relative path against a list of patterns in gitignore syntax
+ * (last match wins, "!" negates). A path also matches when one of its
+ * parent directories does. Returns the matching pattern, or null.
+ */
+export function matchIgnorePatterns(patterns: string[], relativePath: string): string | null {
+  const segments = relativePath.split(/[\\/]/).filter(Boolean);
+  let matched: IgnoreRule | null = null;
+
+  for (const pattern of patterns) {
+    const rule = parseIgnoreLine(pattern, "", pattern);
+    if (!rule) continue;
+    for (let i = 1; i <= segments.length; i++) {
+      const isDirectory = i < segments.length;
+      if (rule.dirOnly && !isDirectory) continue;
+      if (rule.regex.test(segments.slice(0, i).join("/"))) {
+        matched = rule;
+        break;
+      }
+    }
+  }
+
+  return matched && !matched.negate ? matched.label : null;
+}
+
+/**
+ * Parse an ignore file; rules carry "<file>:<line> <pattern>" labels
+ */
+function loadIgnoreFile(filePath: string, baseDir: string, displayPath: string): IgnoreRule[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, "utf-8");
+  } catch {
+    return [];
+  }
+
+  const rules: IgnoreRule[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    const rule = parseIgnoreLine(line, baseDir, `${displayPath}:${index + 1} ${line.trim()}`);
+    if (rule) rules.push(rule);
+  });
+  return rules;
+}
+
+/**
+ * Find the git work tree root containing a directory, or null
+ */
+function findGitRoot(dir: string): string | null {
+  let current = path.resolve(dir);
+  while (true) {
+    if (fs.existsSync(path.join(current, ".git"))) {
+      return current;
+    }
+    const parent = path.dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join("/");
+}
+
+function isWithin(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Create a matcher for a project directory.
+ * Ignore files are loaded lazily per directory and cached.
+ */
+export function createIgnoreMatcher(rootDir: string): IgnoreMatcher {
+  const root = path.resolve(rootDir);
+  const gitRoot = findGitRoot(root);
+  // Ignore files above the project root still apply (e.g. a monorepo's root .gitignore)
+  const topDir = gitRoot || root;
+
+  const rulesByDir = new Map<string, { git: IgnoreRule[]; inflight: IgnoreRule[] }>();
+  const dirResults = new Map<string, string | null>();
+
+  const displayPath = (filePath: string) => {
+    const relative = toPosix(path.relative(root, filePath));
+    return relative || path.basename(filePath);
+  };
+
+  function rulesFor(dir: string): { git: IgnoreRule[]; inflight: IgnoreRule[] } {
+    let rules = rulesByDir.get(dir);
+    if (!rules) {
+      const gitignore = path.join(dir, ".gitignore");
+      const inflightignore = path.join(dir, INFLIGHT_IGNORE_FILE);
+      const git = loadIgnoreFile(gitignore, dir, displayPath(gitignore));
+      if (gitRoot && dir === gitRoot) {
+        const exclude = path.join(gitRoot, ".git", "info", "exclude");
+        git.unshift(...loadIgnoreFile(exclude, dir, displayPath(exclude)));
+      }
+      rules = { git, inflight: loadIgnoreFile(inflightignore, dir, displayPath(inflightignore)) };
+      rulesByDir.set(dir, rules);
+    }
+    return rules;
+  }
+
+  /**
+   * Evaluate a single path against every applicable rule (last match wins),
+   * without considering whether a parent directory is ignored
+   */
+  function matchSelf(absolutePath: string, isDirectory: boolean): string | null {
+    // Directories whose ignore files apply: topDir down to the path's parent
+    const dirs: string[] = [];
+    let current = path.dirname(absolutePath);
+    while (isWithin(topDir, current)) {
+      dirs.unshift(current);
+      if (current === topDir) break;
+      current = path.dirname(current);
+    }
+
+    const ordered = dirs.map(rulesFor);
+    const allRules = [
+      ...ordered.flatMap((r) => r.git),
+      ...ordered.flatMap((r) => r.inflight),
+    ];
+
+    let matched: IgnoreRule | null = null;
+    for (const rule of allRules) {
+      if (rule.dirOnly && !isDirectory) continue;
+      const relative = toPosix(path.relative(rule.baseDir, absolutePath));
+      if (rule.regex.test(relative)) {
+        matched = rule;
+      }
+    }
+
+    return matched && !matched.negate ? matched.label : null;
+  }
+
+  function matchDir(absoluteDir: string): string | null {
+    if (absoluteDir === root || !isWithin(root, absoluteDir)) {
+      return null;
+    }
+    if (dirResults.has(absoluteDir)) {
+      return dirResults.get(absoluteDir)!;
+    }
+    const result = matchDir(path.dirname(absoluteDir)) ?? matchSelf(absoluteDir, true);
+    dirResults.set(absoluteDir, result);
+    return result;
+  }
+
+  return {
+    match(relativePath: string, isDirectory: boolean): string | null {
+      const absolutePath = path.resolve(root, relativePath);
+      if (isDirectory) {
+        return matchDir(absolutePath);
+      }
+      return matchDir(path.dirname(absolutePath)) ?? matchSelf(absolutePath, false);
+    },
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Project Configuration
+ *
+ * Loads checked-in share defaults from inflight.config.json, or from the
+ * "inflight" key in package.json. Tool arguments always take precedence.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { ESSENTIAL_CONFIG_FILES, type FileMap, type ReadReport } from "./file-utils.js";
+import { matchIgnorePatterns } from "./ignore-rules.js";
+
+export const PROJECT_CONFIG_FILE = "inflight.config.json";
+
+const ProjectConfigSchema = z
+  .object({
+    /** Workspace to share into */
+    workspaceId: z.string().min(1).optional(),
+    /** Project new versions are added to */
+    projectId: z.string().min(1).optional(),
+    /** Branch the diff is taken against */
+    baseBranch: z.string().min(1).optional(),
+    /** Only upload files matching these globs (.gitignore syntax) */
+    include: z.array(z.string().min(1)).optional(),
+    /** Never upload files matching these globs (.gitignore syntax) */
+    exclude: z.array(z.string().min(1)).optional(),
+    /** Upload only the files static dependency analysis finds relevant */
+    useStaticAnalysis: z.boolean().optional(),
+    /** Hints for building the prototype */
+    build: z
+      .object({
+        command: z.string().min(1).optional(),
+        port: z.number().int().min(1).max(65535).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+
+export interface LoadedProjectConfig {
+  config: ProjectConfig;
+  /** Where the config came from, e.g. "inflight.config.json" (null if none) */
+  source: string | null;
+}
+
+/**
+ * Thrown when a project config file can't be parsed or fails validation
+ */
+export class ProjectConfigError extends Error {
+  constructor(
+    public readonly source: string,
+    public readonly keyPath: string | null,
+    detail: string
+  ) {
+    super(keyPath ? `${source}: invalid "${keyPath}" — ${detail}` : `${source}: ${detail}`);
+    this.name = "ProjectConfigError";
+  }
+}
+
+/**
+ * Validate raw config, naming the offending key in the error
+ */
+function validate(raw: unknown, source: string): ProjectConfig {
+  const result = ProjectConfigSchema.safeParse(raw);
+  if (result.success) {
+    return result.data;
+  }
+
+  const issue = result.error.issues[0];
+  const issuePath = issue.code === "unrecognized_keys"
+    ? [...issue.path, issue.keys[0]]
+    : issue.path;
+  const detail = issue.code === "unrecognized_keys" ? "unknown key" : issue.message;
+  throw new ProjectConfigError(source, issuePath.join(".") || null, detail);
+}
+
+/**
+ * Load the project config for a directory.
+ * inflight.config.json wins over package.json's "inflight" key.
+ * Throws ProjectConfigError if the config is invalid.
+ */
+export function loadProjectConfig(dir: string): LoadedProjectConfig {
+  const configPath = path.join(dir, PROJECT_CONFIG_FILE);
+  if (fs.existsSync(configPath)) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      throw new ProjectConfigError(PROJECT_CONFIG_FILE, null, `not valid JSON (${detail})`);
+    }
+    return { config: validate(raw, PROJECT_CONFIG_FILE), source: PROJECT_CONFIG_FILE };
+  }
+
+  const packageJsonPath = path.join(dir, "package.json");
+  if (fs.existsSync(packageJsonPath)) {
+    try {
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"));
+      if (packageJson && typeof packageJson === "object" && "inflight" in packageJson) {
+        const source = 'package.json "inflight"';
+        return { config: validate(packageJson.inflight, source), source };
+      }
+    } catch (error) {
+      if (error instanceof ProjectConfigError) throw error;
+      // An unreadable package.json is the build's problem, not ours
+    }
+  }
+
+  return { config: {}, source: null };
+}
+
+/**
+ * Apply the config's include/exclude globs to files that were read.
+ * Essential config files (package.json, tsconfig.json, ...) are always kept.
+ */
+export function applyProjectFileFilters(
+  files: FileMap,
+  loaded: LoadedProjectConfig,
+  report?: ReadReport
+): FileMap {
+  const { include, exclude } = loaded.config;
+  if (!include?.length && !exclude?.length) {
+    return files;
+  }
+
+  const result: FileMap = {};
+  for (const [filePath, file] of Object.entries(files)) {
+    if (!ESSENTIAL_CONFIG_FILES.includes(filePath)) {
+      if (include?.length && !matchIgnorePatterns(include, filePath)) {
+        report?.excluded.push({ path: filePath, rule: `${loaded.source} include (no match)` });
+        continue;
+      }
+      const excludedBy = exclude?.length ? matchIgnorePatterns(exclude, filePath) : null;
+      if (excludedBy) {
+        report?.excluded.push({ path: filePath, rule: `${loaded.source} exclude ${excludedBy}` });
+        continue;
+      }
+    }
+    result[filePath] = file;
+  }
+  return result;
+}
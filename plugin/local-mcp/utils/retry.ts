@@ -0,0 +1,108 @@
+/**
+ * Retry Utilities
+ *
+ * Exponential backoff with jitter for requests that can fail transiently:
+ * network errors, 5xx responses and 429 rate limiting.
+ */
+
+/**
+ * Non-2xx HTTP response, carrying the status so callers can decide to retry
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    /** Delay the server asked for via Retry-After, in ms */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 4) */
+  retries?: number;
+  /** Delay before the first retry, doubled each time (default: 500ms) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay (default: 15s) */
+  maxDelayMs?: number;
+  /** Retry errors isTransientError doesn't cover */
+  shouldRetry?: (error: unknown) => boolean;
+  /** Called before waiting for a retry */
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void | Promise<void>;
+  /** Stops retrying (and waiting) once aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Network failures and server-side errors are worth retrying; other 4xx are not
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status >= 500 || error.status === 429 || error.status === 408;
+  }
+  // fetch() rejects with a TypeError on network failures (DNS, reset, offline)
+  return error instanceof TypeError;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Wait for a delay, rejecting early with the signal's reason if it aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff and jitter
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { retries = 4, baseDelayMs = 500, maxDelayMs = 15_000, shouldRetry, onRetry, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries || !(isTransientError(error) || shouldRetry?.(error))) {
+        throw error;
+      }
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const jittered = backoff / 2 + Math.random() * (backoff / 2);
+      const delayMs = error instanceof HttpError && error.retryAfterMs !== undefined
+        ? Math.min(maxDelayMs, error.retryAfterMs)
+        : Math.round(jittered);
+      await onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+}
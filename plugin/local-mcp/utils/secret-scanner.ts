@@ -0,0 +1,288 @@
+/**
+ * Secret Scanner
+ *
+ * Scans files and git diffs for credentials before anything is uploaded:
+ * common token formats, private keys, credential-like assignments and JSON,
+ * high-entropy strings, and files that are secrets by name (id_rsa, *.pem).
+ */
+
+import * as path from "path";
+import { isFileContent, type FileMap } from "./file-utils.js";
+
+export interface SecretFinding {
+  /** Path relative to the project root */
+  file: string;
+  /** 1-based line number (0 when the whole file is the secret) */
+  line: number;
+  /** Rule that matched */
+  rule: string;
+  /** Masked preview of the match, safe to show */
+  preview: string;
+  /** Where the secret was found */
+  source: "file" | "diff";
+}
+
+interface SecretRule {
+  name: string;
+  pattern: RegExp;
+  /** Capture group holding the secret itself (defaults to the whole match) */
+  secretGroup?: number;
+}
+
+// Token formats with a recognizable prefix or shape
+const SECRET_RULES: SecretRule[] = [
+  { name: "Private key", pattern: /-----BEGIN (?:RSA |DSA |EC |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/ },
+  { name: "AWS access key ID", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: "GitHub token", pattern: /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,}\b/ },
+  { name: "GitHub fine-grained token", pattern: /\bgithub_pat_[A-Za-z0-9_]{22,}\b/ },
+  { name: "Stripe secret key", pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}\b/ },
+  { name: "Slack token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/ },
+  { name: "Slack webhook URL", pattern: /https:\/\/hooks\.slack\.com\/services\/T[A-Za-z0-9]+\/B[A-Za-z0-9]+\/[A-Za-z0-9]+/ },
+  { name: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: "Anthropic API key", pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { name: "OpenAI API key", pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{32,}/ },
+  { name: "npm token", pattern: /\bnpm_[A-Za-z0-9]{36}\b/ },
+  { name: "SendGrid API key", pattern: /\bSG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43}\b/ },
+  { name: "Twilio API key", pattern: /\bSK[0-9a-f]{32}\b/ },
+  { name: "JSON Web Token", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/ },
+  { name: "Password in connection string", pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/]+:([^\s@/]{3,})@/i, secretGroup: 1 },
+  {
+    name: "Credential assignment",
+    pattern: /["']?([A-Za-z0-9_.-]*(?:password|passwd|secret|api[_-]?key|apikey|access[_-]?token|auth[_-]?token|private[_-]?key|client[_-]?secret))["']?\s*[:=]\s*["']([^"'\s]{8,})["']/i,
+    secretGroup: 2,
+  },
+];
+
+// Files that are secrets by name, regardless of content
+const SECRET_FILE_PATTERNS: Array<{ name: string; pattern: RegExp }> = [
+  { name: "SSH private key file", pattern: /(^|\/)id_(rsa|dsa|ecdsa|ed25519)$/ },
+  { name: "Private key file", pattern: /\.(pem|key|p12|pfx|jks|keystore)$/i },
+  { name: "Credentials file", pattern: /(^|\/)(\.netrc|\.htpasswd|\.pgpass|credentials)$/ },
+  { name: "Cloud credentials file", pattern: /(^|\/)\.aws\/credentials$|(^|\/)service[-_]?account.*\.json$/i },
+];
+
+// Values that look like credentials but are placeholders
+const PLACEHOLDER_PATTERN = /^(?:x+|\*+|\.+|<[^>]*>|\$\{[^}]*\}|\{\{[^}]*\}\}|your[-_].*|example.*|changeme|password|secret|placeholder|dummy|test|todo|null|undefined|process\.env.*)$/i;
+
+// Files where long random-looking strings are expected (hashes, source maps, lockfile integrity)
+const HIGH_ENTROPY_SKIP_PATTERN = /\.(svg|map|lock)$|\.min\.(js|css)$|(^|\/)(package-lock\.json|npm-shrinkwrap\.json|pnpm-lock\.yaml|yarn\.lock)$/;
+
+// Subresource integrity hashes ("sha512-…"), as in package.json or HTML outside lockfiles
+const INTEGRITY_HASH_PATTERN = /^sha(1|256|512)-/;
+
+// Quoted tokens considered for the high-entropy check
+const QUOTED_TOKEN_PATTERN = /["'`]([A-Za-z0-9+/=_-]{32,200})["'`]/g;
+const HIGH_ENTROPY_THRESHOLD = 4.5;
+
+const PRIVATE_KEY_BLOCK_PATTERN = /-----BEGIN [A-Z ]*PRIVATE KEY[A-Z ]*-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY[A-Z ]*-----/g;
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Shannon entropy in bits per character
+ */
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * A random-looking token: long, mixed character classes, high entropy
+ */
+function isHighEntropyToken(token: string): boolean {
+  if (INTEGRITY_HASH_PATTERN.test(token)) {
+    return false;
+  }
+  const hasUpper = /[A-Z]/.test(token);
+  const hasLower = /[a-z]/.test(token);
+  const hasDigit = /[0-9]/.test(token);
+  if (!(hasUpper && hasLower && hasDigit)) {
+    return false;
+  }
+  // Identifiers and paths (camelCase, kebab-case, a/b/c) aren't secrets
+  if (/^[A-Za-z]+(?:[-_/][A-Za-z]+)*$/.test(token)) {
+    return false;
+  }
+  return shannonEntropy(token) >= HIGH_ENTROPY_THRESHOLD;
+}
+
+/**
+ * Mask a secret for display: keep a short prefix so it can be recognized
+ */
+function maskSecret(secret: string): string {
+  const visible = Math.min(4, Math.floor(secret.length / 4));
+  return `${secret.slice(0, visible)}${"*".repeat(8)} (${secret.length} chars)`;
+}
+
+/**
+ * Scan a single line of text, returning the rules that matched
+ */
+function scanLine(line: string, filePath: string): Array<{ rule: string; secret: string }> {
+  const matches: Array<{ rule: string; secret: string }> = [];
+
+  for (const rule of SECRET_RULES) {
+    const match = line.match(rule.pattern);
+    if (!match) continue;
+    const secret = match[rule.secretGroup ?? 0];
+    if (rule.secretGroup !== undefined && PLACEHOLDER_PATTERN.test(secret)) continue;
+    matches.push({ rule: rule.name, secret });
+  }
+
+  if (matches.length === 0 && !HIGH_ENTROPY_SKIP_PATTERN.test(filePath)) {
+    for (const match of line.matchAll(QUOTED_TOKEN_PATTERN)) {
+      if (isHighEntropyToken(match[1])) {
+        matches.push({ rule: "High-entropy string", secret: match[1] });
+        break;
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Scan text content line by line
+ */
+function scanText(content: string, filePath: string, source: "file" | "diff"): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    for (const { rule, secret } of scanLine(lines[i], filePath)) {
+      findings.push({ file: filePath, line: i + 1, rule, preview: maskSecret(secret), source });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Get the rule that makes a file a secret by its name, or null
+ */
+export function getSecretFileRule(filePath: string): string | null {
+  const normalized = filePath.split(path.sep).join("/");
+  return SECRET_FILE_PATTERNS.find(({ pattern }) => pattern.test(normalized))?.name || null;
+}
+
+/**
+ * Scan every file in a FileMap. Binary files are only checked by name.
+ */
+export function scanFilesForSecrets(files: FileMap): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+
+  for (const [filePath, file] of Object.entries(files)) {
+    const fileRule = getSecretFileRule(filePath);
+    if (fileRule) {
+      findings.push({ file: filePath, line: 0, rule: fileRule, preview: "(entire file)", source: "file" });
+      continue;
+    }
+    if (isFileContent(file) && file.encoding === "base64") {
+      continue;
+    }
+    findings.push(...scanText(typeof file === "string" ? file : file.content, filePath, "file"));
+  }
+
+  return findings;
+}
+
+/**
+ * Scan the lines a git diff adds. Line numbers refer to the new file.
+ */
+export function scanDiffForSecrets(diff: string): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  let currentFile = "";
+  let newLine = 0;
+
+  for (const line of diff.split(/\r?\n/)) {
+    if (line.startsWith("+++ ")) {
+      currentFile = line.slice(4).replace(/^b\//, "");
+      const fileRule = currentFile !== "/dev/null" ? getSecretFileRule(currentFile) : null;
+      if (fileRule) {
+        findings.push({ file: currentFile, line: 0, rule: fileRule, preview: "(entire file)", source: "diff" });
+      }
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      newLine = parseInt(hunk[1], 10);
+      continue;
+    }
+
+    if (line.startsWith("+")) {
+      for (const { rule, secret } of scanLine(line.slice(1), currentFile)) {
+        findings.push({ file: currentFile, line: newLine, rule, preview: maskSecret(secret), source: "diff" });
+      }
+      newLine++;
+    } else if (line.startsWith(" ")) {
+      newLine++;
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Replace every detected secret in a piece of text with [REDACTED]
+ */
+export function redactSecrets(content: string, filePath: string = ""): string {
+  let redacted = content.replace(PRIVATE_KEY_BLOCK_PATTERN, REDACTED);
+
+  for (const rule of SECRET_RULES) {
+    const global = new RegExp(rule.pattern.source, rule.pattern.flags.includes("g") ? rule.pattern.flags : `${rule.pattern.flags}g`);
+    redacted = redacted.replace(global, (match, ...groups) => {
+      if (rule.secretGroup === undefined) {
+        return REDACTED;
+      }
+      const secret = groups[rule.secretGroup - 1] as string;
+      return PLACEHOLDER_PATTERN.test(secret) ? match : match.replace(secret, REDACTED);
+    });
+  }
+
+  if (!HIGH_ENTROPY_SKIP_PATTERN.test(filePath)) {
+    redacted = redacted.replace(QUOTED_TOKEN_PATTERN, (match, token: string) =>
+      isHighEntropyToken(token) ? match.replace(token, REDACTED) : match
+    );
+  }
+
+  return redacted;
+}
+
+/**
+ * Redact secrets in every text file. Files that are secrets by name are dropped.
+ */
+export function redactFiles(files: FileMap): { files: FileMap; removed: string[] } {
+  const result: FileMap = {};
+  const removed: string[] = [];
+
+  for (const [filePath, file] of Object.entries(files)) {
+    if (getSecretFileRule(filePath)) {
+      removed.push(filePath);
+      continue;
+    }
+    if (typeof file === "string") {
+      result[filePath] = redactSecrets(file, filePath);
+    } else if (file.encoding === "utf-8") {
+      result[filePath] = { ...file, content: redactSecrets(file.content, filePath) };
+    } else {
+      result[filePath] = file;
+    }
+  }
+
+  return { files: result, removed };
+}
+
+/**
+ * Format findings as "file:line  rule  preview" lines for display
+ */
+export function formatFindings(findings: SecretFinding[]): string {
+  return findings
+    .map((f) => `${f.line > 0 ? `${f.file}:${f.line}` : f.file}  ${f.rule}  ${f.preview}${f.source === "diff" ? "  (in diff)" : ""}`)
+    .join("\n");
+}
@@ -0,0 +1,94 @@
+/**
+ * Share History
+ *
+ * Local ledger of every share run from this machine, successful or failed,
+ * appended as one JSON object per line to ~/.claude/mcp-inflight-history.jsonl.
+ * Lets share_history answer "what did I share for this branch" offline.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { sanitizeRemoteUrl } from "./git-utils.js";
+
+export type ShareMode = "clone" | "chunked" | "standard" | "static";
+
+export interface ShareHistoryEntry {
+  timestamp: string;
+  status: "success" | "failed";
+  /** Absolute project directory */
+  directory: string;
+  /** Sanitized remote URL (host/path), if the repo has one */
+  repo?: string;
+  branch?: string;
+  commit?: string;
+  workspaceId?: string;
+  workspaceName?: string;
+  projectId?: string;
+  versionId?: string;
+  sandboxId?: string;
+  inflightUrl?: string;
+  previewUrl?: string;
+  mode?: ShareMode;
+  fileCount?: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ShareHistoryFilter {
+  /** Substring of the repo URL or project directory (case-insensitive) */
+  repo?: string;
+  branch?: string;
+  status?: ShareHistoryEntry["status"];
+  /** Only entries at or after this time */
+  since?: Date;
+}
+
+const HISTORY_FILE = path.join(
+  process.env.HOME || process.env.USERPROFILE || "",
+  ".claude",
+  "mcp-inflight-history.jsonl"
+);
+
+export function appendShareHistory(entry: ShareHistoryEntry): void {
+  // Never write credentials from a remote URL to disk
+  const line = JSON.stringify({ ...entry, ...(entry.repo && { repo: sanitizeRemoteUrl(entry.repo) }) });
+  try {
+    fs.mkdirSync(path.dirname(HISTORY_FILE), { recursive: true });
+    fs.appendFileSync(HISTORY_FILE, line + "\n", { mode: 0o600 });
+  } catch (error) {
+    // History is a convenience; a share never fails because of it
+    console.error("[share-history] Failed to record share:", error);
+  }
+}
+
+/**
+ * History entries matching a filter, newest first
+ */
+export function readShareHistory(filter: ShareHistoryFilter = {}): ShareHistoryEntry[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(HISTORY_FILE, "utf-8");
+  } catch {
+    return [];
+  }
+
+  const repo = filter.repo?.toLowerCase();
+  const entries: ShareHistoryEntry[] = [];
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    let entry: ShareHistoryEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      // A line cut short by a crash; skip it
+      continue;
+    }
+    if (repo && !entry.repo?.toLowerCase().includes(repo) && !entry.directory?.toLowerCase().includes(repo)) continue;
+    if (filter.branch && entry.branch !== filter.branch) continue;
+    if (filter.status && entry.status !== filter.status) continue;
+    if (filter.since && new Date(entry.timestamp).getTime() < filter.since.getTime()) continue;
+    entries.push(entry);
+  }
+
+  return entries.reverse();
+}
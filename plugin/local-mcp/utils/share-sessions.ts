@@ -0,0 +1,163 @@
+/**
+ * Share Sessions
+ *
+ * Persists in-progress chunked uploads so a re-run of share can resume an
+ * interrupted session instead of starting over from /share/chunked/init.
+ * One pending session is kept per project directory.
+ *
+ * Also records each running share as soon as the server reports its IDs, so
+ * a share whose progress stream was lost (restart, network drop) can be
+ * reattached to with share_status. Records are removed once the share ends.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+export interface ChunkedUploadSession {
+  sessionId: string;
+  sandboxId?: string;
+  /** Absolute project directory the upload was started from */
+  directory: string;
+  /** Hash of the chunk layout and share parameters; resuming requires a match */
+  fingerprint: string;
+  totalChunks: number;
+  /** Share API the session was created on */
+  apiUrl: string;
+  createdAt: string;
+}
+
+// Sessions older than this are assumed to have expired server-side
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const SESSION_DIR = path.join(
+  process.env.HOME || process.env.USERPROFILE || "",
+  ".claude",
+  "mcp-inflight-sessions"
+);
+
+function sessionPath(directory: string): string {
+  const key = crypto.createHash("sha256").update(path.resolve(directory)).digest("hex").slice(0, 16);
+  return path.join(SESSION_DIR, `${key}.json`);
+}
+
+/**
+ * Hash arbitrary JSON-serializable share parameters into a fingerprint
+ */
+export function fingerprint(value: unknown): string {
+  return crypto.createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
+
+/**
+ * Pending chunked upload for a directory, or null if there is none
+ * (or it's too old to resume)
+ */
+export function loadUploadSession(directory: string): ChunkedUploadSession | null {
+  try {
+    const session = JSON.parse(fs.readFileSync(sessionPath(directory), "utf-8")) as ChunkedUploadSession;
+    if (Date.now() - new Date(session.createdAt).getTime() > SESSION_MAX_AGE_MS) {
+      clearUploadSession(directory);
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function saveUploadSession(session: ChunkedUploadSession): void {
+  try {
+    fs.mkdirSync(SESSION_DIR, { recursive: true });
+    fs.writeFileSync(sessionPath(session.directory), JSON.stringify(session, null, 2), { mode: 0o600 });
+  } catch (error) {
+    // Without a saved session a retry just starts a fresh upload
+    console.error("[share-sessions] Failed to save upload session:", error);
+  }
+}
+
+export function clearUploadSession(directory: string): void {
+  try {
+    fs.unlinkSync(sessionPath(directory));
+  } catch {
+    // Already gone
+  }
+}
+
+export interface RunningShare {
+  /** Local ID of the share call, which names the record file */
+  id: string;
+  /** Absolute project directory the share was started from */
+  directory: string;
+  branch?: string;
+  sessionId?: string;
+  sandboxId?: string;
+  /** Share API the share was started on */
+  apiUrl: string;
+  startedAt: string;
+}
+
+const RUNNING_DIR = path.join(
+  process.env.HOME || process.env.USERPROFILE || "",
+  ".claude",
+  "mcp-inflight-running"
+);
+
+function runningSharePath(id: string): string {
+  return path.join(RUNNING_DIR, `${id.replace(/[^A-Za-z0-9_-]/g, "_")}.json`);
+}
+
+/**
+ * Shares started on a Share API that never reported an outcome, newest first
+ */
+export function listRunningShares(apiUrl: string): RunningShare[] {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(RUNNING_DIR);
+  } catch {
+    return [];
+  }
+
+  const shares: RunningShare[] = [];
+  for (const entry of entries) {
+    if (!entry.endsWith(".json")) continue;
+    try {
+      const share = JSON.parse(fs.readFileSync(path.join(RUNNING_DIR, entry), "utf-8")) as RunningShare;
+      if (Date.now() - new Date(share.startedAt).getTime() > SESSION_MAX_AGE_MS) {
+        clearRunningShare(share.id);
+      } else if (share.apiUrl === apiUrl) {
+        shares.push(share);
+      }
+    } catch {
+      // Unreadable record, skip it
+    }
+  }
+  return shares.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/**
+ * Record (or update) a running share. Older records for the same server-side
+ * session or sandbox, e.g. from a share that was resumed, are replaced.
+ */
+export function saveRunningShare(share: RunningShare): void {
+  for (const other of listRunningShares(share.apiUrl)) {
+    if (other.id === share.id) continue;
+    if ((share.sandboxId && other.sandboxId === share.sandboxId) || (share.sessionId && other.sessionId === share.sessionId)) {
+      clearRunningShare(other.id);
+    }
+  }
+  try {
+    fs.mkdirSync(RUNNING_DIR, { recursive: true });
+    fs.writeFileSync(runningSharePath(share.id), JSON.stringify(share, null, 2), { mode: 0o600 });
+  } catch (error) {
+    // Without a record an interrupted share can still be found with prototype_list
+    console.error("[share-sessions] Failed to save running share:", error);
+  }
+}
+
+export function clearRunningShare(id: string): void {
+  try {
+    fs.unlinkSync(runningSharePath(id));
+  } catch {
+    // Already gone
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Share Watch
+ *
+ * Watches a project for new commits on its branch, or for saved files, and
+ * calls back after a debounce so a new version can be published. Only one
+ * publish runs at a time; changes made during one trigger another after it.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { getExclusionRule } from "./file-utils.js";
+import { gitExec } from "./git-utils.js";
+import { createIgnoreMatcher, type IgnoreMatcher } from "./ignore-rules.js";
+
+export type WatchTrigger = "commit" | "save";
+
+export interface ShareWatchOptions {
+  directory: string;
+  /** Publish on new commits to the branch, or on saved files */
+  trigger: WatchTrigger;
+  /** Quiet period after the last change before publishing */
+  debounceMs: number;
+  /** How often HEAD is checked in commit mode (default: 5s) */
+  pollIntervalMs?: number;
+  /** Called when a change is noticed but not acted on (e.g. another branch was checked out) */
+  onNotice?: (message: string) => void;
+}
+
+async function readHead(directory: string): Promise<{ branch: string; commit: string } | null> {
+  // --abbrev-ref only applies to the revisions after it
+  const output = await gitExec(["rev-parse", "HEAD", "--abbrev-ref", "HEAD"], directory);
+  const [commit, branch] = output?.split("\n") || [];
+  return branch && commit ? { branch, commit } : null;
+}
+
+export class ShareWatcher {
+  readonly directory: string;
+  /** Branch being watched (commit mode), set by start() */
+  branch: string | undefined;
+  private lastCommit: string | undefined;
+  private otherBranch: string | undefined;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  /** Save mode: one watcher per watched directory, keyed by path relative to the project */
+  private dirWatchers = new Map<string, fs.FSWatcher>();
+  private ignore: IgnoreMatcher | null = null;
+  private running = false;
+  private pendingReason: string | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly options: ShareWatchOptions,
+    private readonly onChange: (reason: string) => Promise<void>
+  ) {
+    this.directory = path.resolve(options.directory);
+  }
+
+  get publishing(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start watching. Fails if commit mode can't read the branch.
+   */
+  async start(): Promise<void> {
+    if (this.options.trigger === "commit") {
+      const head = await readHead(this.directory);
+      if (!head || head.branch === "HEAD") {
+        throw new Error("Watching for commits needs a git repo with a checked-out branch");
+      }
+      this.branch = head.branch;
+      this.lastCommit = head.commit;
+      this.pollTimer = setInterval(() => void this.pollHead(), this.options.pollIntervalMs ?? 5000);
+      this.pollTimer.unref();
+    } else {
+      this.ignore = createIgnoreMatcher(this.directory);
+      try {
+        this.watchTree("");
+      } catch (error) {
+        this.stop();
+        throw error;
+      }
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    for (const watcher of this.dirWatchers.values()) {
+      watcher.close();
+    }
+    this.dirWatchers.clear();
+    this.debounceTimer = null;
+    this.pollTimer = null;
+  }
+
+  private isWatchedPath(relativePath: string, isDirectory: boolean): boolean {
+    if (relativePath === ".git" || relativePath.startsWith(".git/")) {
+      return false;
+    }
+    // Directories are matched with a trailing slash, as readProjectFiles does
+    const matchPath = isDirectory ? `${relativePath}/` : relativePath;
+    return !getExclusionRule(matchPath) && !this.ignore?.match(relativePath, isDirectory);
+  }
+
+  /**
+   * Watch a directory and every subdirectory that isn't excluded or ignored,
+   * one non-recursive watcher each. A recursive watch would also cover
+   * node_modules, .git and build output, and can use up the inotify watch limit.
+   * Throws if a watcher can't be created (e.g. ENOSPC when out of watches).
+   */
+  private watchTree(relativeDir: string): void {
+    if (this.stopped || this.dirWatchers.has(relativeDir)) return;
+    const absoluteDir = path.join(this.directory, relativeDir);
+
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(absoluteDir, (_event, filename) => {
+        if (filename) {
+          const name = filename.toString();
+          this.onPathChanged(relativeDir ? `${relativeDir}/${name}` : name);
+        }
+      });
+    } catch (error) {
+      // Removed between listing and watching
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+    watcher.on("error", (error) => {
+      this.options.onNotice?.(`Stopped watching files: ${error.message}`);
+      this.stop();
+    });
+    this.dirWatchers.set(relativeDir, watcher);
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(absoluteDir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory() && this.isWatchedPath(relativePath, true)) {
+        this.watchTree(relativePath);
+      }
+    }
+  }
+
+  private unwatchTree(relativeDir: string): void {
+    for (const [watchedDir, watcher] of this.dirWatchers) {
+      if (watchedDir === relativeDir || watchedDir.startsWith(`${relativeDir}/`)) {
+        watcher.close();
+        this.dirWatchers.delete(watchedDir);
+      }
+    }
+  }
+
+  private onPathChanged(relativePath: string): void {
+    if (this.stopped) return;
+    let stat: fs.Stats | null = null;
+    try {
+      stat = fs.statSync(path.join(this.directory, relativePath));
+    } catch {
+      // Deleted or renamed away
+    }
+
+    if (stat?.isDirectory()) {
+      // A new or renamed-in directory: start watching it; the files it brought count as a change
+      if (!this.dirWatchers.has(relativePath) && this.isWatchedPath(relativePath, true)) {
+        try {
+          this.watchTree(relativePath);
+        } catch (error) {
+          this.options.onNotice?.(`Stopped watching files: ${error instanceof Error ? error.message : String(error)}`);
+          this.stop();
+          return;
+        }
+        this.schedule(`added ${relativePath}/`);
+      }
+      return;
+    }
+
+    if (!stat && this.dirWatchers.has(relativePath)) {
+      this.unwatchTree(relativePath);
+      this.schedule(`removed ${relativePath}/`);
+      return;
+    }
+
+    if (this.isWatchedPath(relativePath, false)) {
+      this.schedule(`saved ${relativePath}`);
+    }
+  }
+
+  private async pollHead(): Promise<void> {
+    const head = await readHead(this.directory);
+    if (!head || this.stopped || head.commit === this.lastCommit) {
+      return;
+    }
+    this.lastCommit = head.commit;
+    if (head.branch !== this.branch) {
+      // Don't publish another branch's commits to this branch's project
+      if (head.branch !== this.otherBranch) {
+        this.options.onNotice?.(`${head.branch} is checked out; waiting for new commits on ${this.branch}`);
+      }
+      this.otherBranch = head.branch;
+      return;
+    }
+    this.otherBranch = undefined;
+    this.schedule(`new commit ${head.commit.slice(0, 7)}`);
+  }
+
+  private schedule(reason: string): void {
+    if (this.stopped) return;
+    if (this.running) {
+      this.pendingReason = reason;
+      return;
+    }
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => void this.fire(reason), this.options.debounceMs);
+  }
+
+  private async fire(reason: string): Promise<void> {
+    this.debounceTimer = null;
+    if (this.stopped) return;
+    this.running = true;
+    try {
+      await this.onChange(reason);
+    } catch (error) {
+      this.options.onNotice?.(`Publishing failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.running = false;
+    }
+    const pending = this.pendingReason;
+    this.pendingReason = null;
+    if (pending) {
+      this.schedule(pending);
+    }
+  }
+}
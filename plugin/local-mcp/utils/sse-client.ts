@@ -0,0 +1,252 @@
+/**
+ * SSE Client
+ *
+ * Reads Server-Sent Events from a fetch() Response following the HTML spec's
+ * event stream format: CRLF/CR/LF line endings, multi-line data fields,
+ * "event", "id" and "retry" fields, and comment lines (heartbeats).
+ * Events are parsed across network reads, never per read batch.
+ *
+ * Streams that go idle or drop before the consumer is done are reopened via
+ * a caller-supplied reconnect function, which receives the last event ID.
+ */
+
+import { isTransientError, sleep } from "./retry.js";
+
+export interface SSEEvent {
+  /** Event type ("message" when the event has no event field) */
+  event: string;
+  /** Data fields joined with "\n" */
+  data: string;
+  /** Last event ID seen on the stream when this event was dispatched */
+  id?: string;
+}
+
+export interface SSEReadOptions {
+  /** Reconnect when nothing (not even a heartbeat) arrives for this long (default: 90s) */
+  idleTimeoutMs?: number;
+  /** Reconnect attempts in a row before giving up (default: 5) */
+  maxReconnects?: number;
+  /** Aborts reading and any pending reconnect */
+  signal?: AbortSignal;
+  /** Reopen the stream; without it, a dropped stream ends the iteration or throws */
+  reconnect?: (lastEventId: string | undefined) => Promise<Response>;
+  /** Called before each reconnect attempt */
+  onReconnect?: (attempt: number, reason: unknown) => void;
+}
+
+/**
+ * The stream sent nothing for longer than the idle timeout
+ */
+export class SSEIdleTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`No events received for ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "SSEIdleTimeoutError";
+  }
+}
+
+/**
+ * Incremental parser for the event stream format
+ */
+export class SSEParser {
+  private buffer = "";
+  private dataLines: string[] = [];
+  private eventType = "";
+  private lastEventId: string | undefined;
+  private started = false;
+  /** Reconnection delay requested by the server via "retry:" */
+  retryMs: number | undefined;
+
+  get currentEventId(): string | undefined {
+    return this.lastEventId;
+  }
+
+  /**
+   * Feed decoded text; returns the events completed by it
+   */
+  push(text: string): SSEEvent[] {
+    if (!this.started) {
+      this.started = true;
+      text = text.replace(/^\uFEFF/, "");
+    }
+    this.buffer += text;
+
+    const events: SSEEvent[] = [];
+    let lineStart = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== "\n" && char !== "\r") continue;
+      // A trailing CR may be the first half of a CRLF split across reads
+      if (char === "\r" && i === this.buffer.length - 1) break;
+
+      const event = this.processLine(this.buffer.slice(lineStart, i));
+      if (event) events.push(event);
+      if (char === "\r" && this.buffer[i + 1] === "\n") i++;
+      lineStart = i + 1;
+    }
+    this.buffer = this.buffer.slice(lineStart);
+
+    return events;
+  }
+
+  private processLine(line: string): SSEEvent | null {
+    // A blank line dispatches the pending event
+    if (line === "") {
+      const dataLines = this.dataLines;
+      const event = this.eventType || "message";
+      this.dataLines = [];
+      this.eventType = "";
+      if (dataLines.length === 0) {
+        return null;
+      }
+      return { event, data: dataLines.join("\n"), id: this.lastEventId };
+    }
+
+    // Comment line, typically a heartbeat
+    if (line.startsWith(":")) {
+      return null;
+    }
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      case "data":
+        this.dataLines.push(value);
+        break;
+      case "id":
+        if (!value.includes("\0")) {
+          this.lastEventId = value;
+        }
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) {
+          this.retryMs = parseInt(value, 10);
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+    return null;
+  }
+}
+
+/**
+ * Read one chunk, failing if nothing arrives within the idle timeout or the signal aborts
+ */
+function readWithTimeout(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => finish(() => reject(signal!.reason));
+    const timer = setTimeout(() => finish(() => reject(new SSEIdleTimeoutError(timeoutMs))), timeoutMs);
+    let settled = false;
+    function finish(settle: () => void) {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      settle();
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    reader.read().then(
+      (result) => finish(() => resolve(result)),
+      (error) => finish(() => reject(error))
+    );
+  });
+}
+
+/**
+ * Decoded text chunks from a response body; the reader is released when iteration stops
+ */
+async function* readChunks(response: Response, idleTimeoutMs: number, signal?: AbortSignal): AsyncGenerator<string> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("No response body");
+  }
+  const decoder = new TextDecoder();
+
+  try {
+    while (true) {
+      const { done, value } = await readWithTimeout(reader, idleTimeoutMs, signal);
+      if (done) {
+        const rest = decoder.decode();
+        if (rest) yield rest;
+        return;
+      }
+      yield decoder.decode(value, { stream: true });
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Iterate the events of an SSE response. Stop iterating (break/return) once
+ * the final event has arrived; if the stream drops or goes idle first, it is
+ * reopened with the last event ID, after the server's retry delay.
+ */
+export async function* readSSE(initial: Response, options: SSEReadOptions = {}): AsyncGenerator<SSEEvent> {
+  const { idleTimeoutMs = 90_000, maxReconnects = 5, signal, reconnect, onReconnect } = options;
+  let response: Response | null = initial;
+  let lastEventId: string | undefined;
+  let retryMs = 1000;
+  let attempts = 0;
+
+  while (true) {
+    let failure: unknown = null;
+
+    if (response) {
+      // Event fields never carry over between connections, only the last event ID
+      const parser = new SSEParser();
+      try {
+        for await (const chunk of readChunks(response, idleTimeoutMs, signal)) {
+          for (const event of parser.push(chunk)) {
+            attempts = 0;
+            yield event;
+          }
+          lastEventId = parser.currentEventId ?? lastEventId;
+          retryMs = parser.retryMs ?? retryMs;
+        }
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        failure = error;
+      }
+      lastEventId = parser.currentEventId ?? lastEventId;
+      retryMs = parser.retryMs ?? retryMs;
+    }
+
+    if (!reconnect) {
+      if (failure) throw failure;
+      return;
+    }
+    if (attempts >= maxReconnects) {
+      throw failure ?? new Error("Event stream closed and couldn't be reopened");
+    }
+
+    attempts++;
+    onReconnect?.(attempts, failure ?? new Error("Event stream closed"));
+    await sleep(retryMs, signal);
+    try {
+      response = await reconnect(lastEventId);
+    } catch (error) {
+      // Only network errors and 5xx are worth another attempt (not e.g. a 404 for an ended stream)
+      if (signal?.aborted || !isTransientError(error)) throw error;
+      response = null;
+      if (attempts >= maxReconnects) throw error;
+    }
+  }
+}
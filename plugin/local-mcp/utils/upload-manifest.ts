@@ -0,0 +1,151 @@
+/**
+ * Upload Manifests
+ *
+ * Content-hash manifests (path → sha256 of the file's bytes) for shared
+ * versions, so a new version only uploads files that were added or modified
+ * and lists the ones that were deleted. The server reuses everything else.
+ * Manifests of live sandboxes let update_prototype sync only changed files.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { isFileContent, type FileContent, type FileMap } from "./file-utils.js";
+
+/** Map of relative file path to sha256 hex digest */
+export type FileManifest = Record<string, string>;
+
+export interface VersionManifest {
+  projectId: string;
+  versionId: string;
+  files: FileManifest;
+  createdAt: string;
+}
+
+export interface ManifestDiff {
+  /** Files to upload: added or modified since the base version */
+  changed: FileMap;
+  added: string[];
+  modified: string[];
+  deleted: string[];
+  unchanged: number;
+}
+
+// Manifests of versions shared from this machine, one file per project,
+// and of the files in sandboxes started or updated from this machine
+const MANIFEST_DIR = path.join(
+  process.env.HOME || process.env.USERPROFILE || "",
+  ".claude",
+  "mcp-inflight-manifests"
+);
+
+/**
+ * sha256 of a file's bytes (base64 content is decoded first)
+ */
+export function hashFile(file: string | FileContent): string {
+  const bytes = isFileContent(file)
+    ? Buffer.from(file.content, file.encoding === "base64" ? "base64" : "utf-8")
+    : Buffer.from(file, "utf-8");
+  return crypto.createHash("sha256").update(bytes).digest("hex");
+}
+
+/**
+ * Hash every file in a FileMap
+ */
+export function buildManifest(files: FileMap): FileManifest {
+  const manifest: FileManifest = {};
+  for (const [filePath, file] of Object.entries(files)) {
+    manifest[filePath] = hashFile(file);
+  }
+  return manifest;
+}
+
+/**
+ * Compare the files about to be shared against a base version's manifest
+ */
+export function diffManifest(base: FileManifest, files: FileMap, current: FileManifest = buildManifest(files)): ManifestDiff {
+  const diff: ManifestDiff = { changed: {}, added: [], modified: [], deleted: [], unchanged: 0 };
+
+  for (const [filePath, hash] of Object.entries(current)) {
+    if (!(filePath in base)) {
+      diff.added.push(filePath);
+      diff.changed[filePath] = files[filePath];
+    } else if (base[filePath] !== hash) {
+      diff.modified.push(filePath);
+      diff.changed[filePath] = files[filePath];
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  for (const filePath of Object.keys(base)) {
+    if (!(filePath in current)) {
+      diff.deleted.push(filePath);
+    }
+  }
+
+  return diff;
+}
+
+function manifestPath(key: string): string {
+  return path.join(MANIFEST_DIR, `${key.replace(/[^A-Za-z0-9_-]/g, "_")}.json`);
+}
+
+function sandboxManifestPath(sandboxId: string): string {
+  return manifestPath(`sandbox-${sandboxId}`);
+}
+
+/**
+ * Manifest of the last version of a project shared from this machine, or null
+ */
+export function loadLocalManifest(projectId: string): VersionManifest | null {
+  try {
+    const data = JSON.parse(fs.readFileSync(manifestPath(projectId), "utf-8")) as VersionManifest;
+    return data.projectId === projectId && data.versionId && data.files ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember the manifest of a version that was just shared
+ */
+export function saveLocalManifest(projectId: string, versionId: string, files: FileManifest): void {
+  try {
+    fs.mkdirSync(MANIFEST_DIR, { recursive: true });
+    const manifest: VersionManifest = { projectId, versionId, files, createdAt: new Date().toISOString() };
+    fs.writeFileSync(manifestPath(projectId), JSON.stringify(manifest), { mode: 0o600 });
+  } catch (error) {
+    // A missing manifest only means the next version uploads everything
+    console.error("[upload-manifest] Failed to save manifest:", error);
+  }
+}
+
+/**
+ * Manifest of the files last synced to a sandbox from this machine, or null
+ */
+export function loadSandboxManifest(sandboxId: string): FileManifest | null {
+  try {
+    const data = JSON.parse(fs.readFileSync(sandboxManifestPath(sandboxId), "utf-8")) as { sandboxId: string; files: FileManifest };
+    return data.sandboxId === sandboxId && data.files ? data.files : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remember the files a sandbox was just created or updated with
+ */
+export function saveSandboxManifest(sandboxId: string, files: FileManifest): void {
+  try {
+    fs.mkdirSync(MANIFEST_DIR, { recursive: true });
+    fs.writeFileSync(
+      sandboxManifestPath(sandboxId),
+      JSON.stringify({ sandboxId, files, updatedAt: new Date().toISOString() }),
+      { mode: 0o600 }
+    );
+  } catch (error) {
+    // Without it update_prototype relies on the server's manifest
+    console.error("[upload-manifest] Failed to save sandbox manifest:", error);
+  }
+}